@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { findArgumentErrors, validateToolArguments } from '../arguments.js';
+import { toolDefinitions } from '../tools.js';
+
+function tool(name: string) {
+  const definition = toolDefinitions.find((candidate) => candidate.name === name);
+  if (!definition) throw new Error(`No tool ${name}`);
+  return definition;
+}
+
+describe('Tool argument validation', () => {
+  it('should accept valid arguments', () => {
+    expect(findArgumentErrors(tool('create_rule'), {
+      action: 'block',
+      direction: 'outbound',
+      protocol: 'tcp',
+      target: { type: 'domain', value: 'example.com' },
+    })).toEqual([]);
+  });
+
+  it('should report missing required fields', () => {
+    expect(findArgumentErrors(tool('get_alarm'), {})).toEqual([
+      'gid: is required',
+      'aid: is required',
+    ]);
+  });
+
+  it('should report enum, type and range violations per field', () => {
+    expect(findArgumentErrors(tool('create_rule'), {
+      action: 'deny',
+      direction: 'outbound',
+      protocol: 'tcp',
+      target: { type: 'domain', value: 42 },
+    })).toEqual([
+      'action: must be one of allow, block, time_limit (got "deny")',
+      'target.value: must be a string (got 42)',
+    ]);
+
+    expect(findArgumentErrors(tool('list_alarms'), { limit: 5000 })).toEqual([
+      'limit: must be <= 500 (got 5000)',
+    ]);
+  });
+
+  it('should validate array items', () => {
+    expect(findArgumentErrors(tool('create_target_list'), { name: 'Blocked', targets: ['a.com', 7] })).toEqual([
+      'targets[1]: must be a string (got 7)',
+    ]);
+  });
+
+  it('should allow properties outside the schema', () => {
+    expect(findArgumentErrors(tool('list_boxes'), { profile: 'acme' })).toEqual([]);
+  });
+
+  it('should throw InvalidParams with every problem listed', () => {
+    try {
+      validateToolArguments(tool('get_alarm'), { gid: 1 });
+      expect.fail('expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('Invalid arguments for get_alarm:\n- aid: is required\n- gid: must be a string (got 1)');
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditEntry, AuditLog } from '../audit.js';
+import { createServer } from '../index.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/rules`, () =>
+    HttpResponse.json({ count: 1, results: [{ id: 'rule1', action: 'block', status: 'active' }] })
+  ),
+  http.post(`${BASE}/rules/:id/pause`, () => HttpResponse.json({ id: 'rule1', status: 'paused' })),
+  http.post(`${BASE}/rules/:id/resume`, () => HttpResponse.json({ message: 'rule is locked' }, { status: 409 }))
+);
+
+const operation = { tool: 'pause_rule', profile: 'default', client: 'test-client', args: { id: 'rule1' } };
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    change_id: 'change',
+    timestamp: '2026-10-01T12:00:00.000Z',
+    tool: 'pause_rule',
+    profile: 'default',
+    client: null,
+    arguments: {},
+    resource_type: 'rule',
+    resource_id: 'rule1',
+    http_status: 200,
+    success: true,
+    before: { id: 'rule1', status: 'active' },
+    after: null,
+    ...overrides,
+  };
+}
+
+describe('Audit log', () => {
+  let auditDir: string;
+  let auditPath: string;
+  let files = 0;
+
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-audit-test-'));
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  // Each test writes to its own log
+  function nextPath() {
+    auditPath = join(auditDir, `audit-${++files}.jsonl`);
+    return auditPath;
+  }
+
+  async function connect() {
+    const server = createServer({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      maxRetries: 0,
+      cache: false,
+      auditLogPath: auditPath,
+      profiles: [{ name: 'acme', domain: 'acme.firewalla.net', apiKey: 'acme-key' }],
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  async function auditLog(client: Client, args: Record<string, unknown> = {}) {
+    const result: any = await client.callTool({ name: 'get_audit_log', arguments: { ...args, format: 'json' } });
+    return result.structuredContent;
+  }
+
+  describe('AuditLog', () => {
+    it('should append the snapshot, status and response of a write', async () => {
+      const log = new AuditLog(nextPath());
+
+      const { changeId } = await log.record(operation, {
+        resourceType: 'rule',
+        resourceId: 'rule1',
+        snapshot: async () => ({ id: 'rule1', status: 'active' }),
+      }, async () => ({ status: 200, data: { id: 'rule1', status: 'paused' } }));
+
+      expect(await log.read()).toEqual([expect.objectContaining({
+        change_id: changeId,
+        tool: 'pause_rule',
+        client: 'test-client',
+        resource_id: 'rule1',
+        http_status: 200,
+        success: true,
+        before: { id: 'rule1', status: 'active' },
+        after: { id: 'rule1', status: 'paused' },
+      })]);
+    });
+
+    it('should record failed writes and rethrow their error', async () => {
+      const log = new AuditLog(nextPath());
+      const failure = Object.assign(new Error('Request failed with status code 409'), {
+        isAxiosError: true,
+        response: { status: 409 },
+      });
+
+      await expect(log.record(operation, { resourceType: 'rule', resourceId: 'rule1' }, () => Promise.reject(failure)))
+        .rejects.toBe(failure);
+
+      expect((await log.read())[0]).toMatchObject({
+        success: false,
+        http_status: 409,
+        error: 'Request failed with status code 409',
+        after: null,
+      });
+    });
+
+    it('should mark entries whose snapshot failed', async () => {
+      const log = new AuditLog(nextPath());
+
+      await log.record(operation, {
+        resourceType: 'rule',
+        resourceId: 'rule1',
+        snapshot: () => Promise.reject(new Error('snapshot unavailable')),
+      }, async () => ({ status: 200, data: null }));
+
+      expect((await log.read())[0]).toMatchObject({ success: true, before: null, snapshot_error: 'snapshot unavailable' });
+    });
+
+    it('should skip malformed lines', async () => {
+      writeFileSync(nextPath(), `${JSON.stringify(entry({ change_id: 'a' }))}\n{not json\n\n${JSON.stringify(entry({ change_id: 'b' }))}\n`);
+      const skipped: string[] = [];
+
+      const entries = await new AuditLog(auditPath, (message) => skipped.push(message)).read();
+
+      expect(entries.map((logged) => logged.change_id)).toEqual(['a', 'b']);
+      expect(skipped).toEqual(['Skipping malformed audit log line: {not json']);
+    });
+
+    it('should read a missing log as empty', async () => {
+      expect(await new AuditLog(join(auditDir, 'missing', 'audit.jsonl')).read()).toEqual([]);
+    });
+  });
+
+  describe('get_audit_log', () => {
+    it('should list writes made through the tools, newest first', async () => {
+      nextPath();
+      const client = await connect();
+
+      const paused: any = await client.callTool({ name: 'pause_rule', arguments: { id: 'rule1', format: 'json' } });
+      await expect(client.callTool({ name: 'resume_rule', arguments: { id: 'rule1' } })).rejects.toThrow();
+
+      const { data, metadata } = await auditLog(client);
+      expect(metadata).toMatchObject({ audit_log_path: auditPath, total_matches: 2, count: 2 });
+      expect(data).toMatchObject([
+        { tool: 'resume_rule', success: false, http_status: 409, undoable: false, undo_error: expect.stringMatching(/failed upstream/) },
+        {
+          change_id: paused.structuredContent.data.change_id,
+          tool: 'pause_rule',
+          profile: 'default',
+          client: 'test-client',
+          success: true,
+          before: { id: 'rule1', status: 'active' },
+          undoable: true,
+        },
+      ]);
+    });
+
+    it('should filter by tool, profile, resource, time and limit', async () => {
+      writeFileSync(nextPath(), [
+        entry({ change_id: 'old', timestamp: '2026-09-01T00:00:00.000Z' }),
+        entry({ change_id: 'acme', profile: 'acme', timestamp: '2026-10-02T00:00:00.000Z' }),
+        entry({ change_id: 'delete', tool: 'delete_rule', resource_id: 'rule2', timestamp: '2026-10-03T00:00:00.000Z' }),
+        entry({ change_id: 'new', timestamp: '2026-10-04T00:00:00.000Z' }),
+      ].map((logged) => JSON.stringify(logged)).join('\n') + '\n');
+      const client = await connect();
+      const ids = async (args: Record<string, unknown>) => (await auditLog(client, args)).data.map((logged: any) => logged.change_id);
+
+      expect(await ids({})).toEqual(['new', 'delete', 'acme', 'old']);
+      expect(await ids({ tool: 'delete_rule' })).toEqual(['delete']);
+      expect(await ids({ profile: 'acme' })).toEqual(['acme']);
+      expect(await ids({ profile: 'default' })).toEqual(['new', 'delete', 'old']);
+      expect(await ids({ resource_id: 'rule2' })).toEqual(['delete']);
+      expect(await ids({ since: '2026-10-02T00:00:00Z', until: '2026-10-03T00:00:00Z' })).toEqual(['delete', 'acme']);
+      expect(await ids({ since: String(Date.parse('2026-10-03T12:00:00Z') / 1000) })).toEqual(['new']);
+      expect(await ids({ limit: 1 })).toEqual(['new']);
+      await expect(client.callTool({ name: 'get_audit_log', arguments: { since: 'yesterday-ish' } }))
+        .rejects.toThrow(/Invalid since/);
+    });
+
+    it('should report changes without a snapshot as not undoable', async () => {
+      writeFileSync(nextPath(), JSON.stringify(entry({ before: null, snapshot_error: 'Service unavailable' })) + '\n');
+      const client = await connect();
+
+      expect((await auditLog(client)).data[0]).toMatchObject({
+        undoable: false,
+        undo_error: 'No snapshot was captured before change change (Service unavailable), so it cannot be undone',
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { cacheStatus, resourceOf, ResponseCache } from '../cache.js';
+import { FirewallaMspClient } from '../client.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+let requests: string[] = [];
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/rules`, ({ request }) => {
+    requests.push(`GET ${new URL(request.url).pathname}`);
+    return HttpResponse.json({ count: 1, results: [{ id: 'rule1', status: 'active' }] });
+  }),
+  http.get(`${BASE}/flows`, () => {
+    requests.push('GET /v2/flows');
+    return HttpResponse.json({ count: 0, results: [] });
+  }),
+  http.post(`${BASE}/rules/:id/pause`, () => {
+    requests.push('POST pause');
+    return HttpResponse.json({ ok: true });
+  })
+);
+
+function createClient(cache = new ResponseCache()) {
+  return new FirewallaMspClient({ domain: 'test.firewalla.net', apiKey: 'test-api-key', maxRetries: 0, cache });
+}
+
+describe('ResponseCache', () => {
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    requests = [];
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+  });
+
+  it('should map paths to resources', () => {
+    expect(resourceOf('/rules/abc/pause')).toBe('rules');
+    expect(resourceOf('/target-lists')).toBe('target-lists');
+  });
+
+  it('should serve repeated requests from the cache with their age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = createClient();
+
+    const first = await client.listRules();
+    vi.advanceTimersByTime(5000);
+    const second = await client.listRules();
+
+    expect(requests).toEqual(['GET /v2/rules']);
+    expect(cacheStatus(first)).toEqual({ hit: false, ageMs: 0 });
+    expect(cacheStatus(second)).toEqual({ hit: true, ageMs: 5000 });
+    expect(second).not.toBe(first);
+  });
+
+  it('should expire entries after the resource TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = createClient(new ResponseCache({ ttls: { rules: 1000 } }));
+
+    await client.listRules();
+    vi.advanceTimersByTime(1000);
+    await client.listRules();
+
+    expect(requests).toEqual(['GET /v2/rules', 'GET /v2/rules']);
+  });
+
+  it('should not cache resources without a TTL', async () => {
+    const client = createClient();
+
+    const flows = await client.listFlows();
+    await client.listFlows();
+
+    expect(requests).toEqual(['GET /v2/flows', 'GET /v2/flows']);
+    expect(cacheStatus(flows)).toBeUndefined();
+  });
+
+  it('should read rules past the cache when asked for a fresh copy', async () => {
+    const client = createClient();
+
+    await client.listRules();
+    const rule = await client.getRule('rule1', { fresh: true });
+    const cached = await client.listRules();
+
+    expect(rule?.id).toBe('rule1');
+    expect(requests).toEqual(['GET /v2/rules', 'GET /v2/rules']);
+    expect(cacheStatus(cached)?.hit).toBe(true);
+  });
+
+  it('should invalidate a resource when it is written', async () => {
+    const client = createClient();
+
+    await client.listRules();
+    await client.pauseRule('rule1');
+    await client.listRules();
+
+    expect(requests).toEqual(['GET /v2/rules', 'POST pause', 'GET /v2/rules']);
+  });
+
+  it('should keep entries on disk across instances', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'firewalla-msp-cache-'));
+    try {
+      await createClient(new ResponseCache({ directory, namespace: 'test.firewalla.net' })).listRules();
+      const rules = await createClient(new ResponseCache({ directory, namespace: 'test.firewalla.net' })).listRules();
+
+      expect(requests).toEqual(['GET /v2/rules']);
+      expect(cacheStatus(rules)?.hit).toBe(true);
+
+      await createClient(new ResponseCache({ directory, namespace: 'test.firewalla.net' })).pauseRule('rule1');
+      const [namespace] = readdirSync(directory);
+      expect(readdirSync(join(directory, namespace))).toEqual([]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
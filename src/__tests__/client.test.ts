@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { FirewallaMspClient, normalizeListResponse } from '../client.js';
+import { RequestLimiter } from '../rate-limit.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+const mockApiServer = setupServer();
+
+function createClient() {
+  return new FirewallaMspClient({
+    domain: 'test.firewalla.net',
+    apiKey: 'test-api-key',
+    maxRetries: 2,
+  });
+}
+
+describe('FirewallaMspClient', () => {
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+  });
+
+  describe('normalizeListResponse', () => {
+    it('should wrap bare arrays', () => {
+      expect(normalizeListResponse([{ id: 1 }, { id: 2 }])).toEqual({
+        count: 2,
+        results: [{ id: 1 }, { id: 2 }],
+      });
+    });
+
+    it('should fill in missing count and results', () => {
+      expect(normalizeListResponse({ next_cursor: 'abc' })).toEqual({
+        count: 0,
+        results: [],
+        next_cursor: 'abc',
+      });
+    });
+  });
+
+  describe('requests', () => {
+    it('should send the API key and drop unset parameters', async () => {
+      let authorization: string | null = null;
+      let search = '';
+      mockApiServer.use(
+        http.get(`${BASE}/devices`, ({ request }) => {
+          authorization = request.headers.get('authorization');
+          search = new URL(request.url).search;
+          return HttpResponse.json([{ mac: 'aa:bb:cc:dd:ee:ff' }]);
+        })
+      );
+
+      const devices = await createClient().listDevices({ box: 'box1', group: undefined });
+
+      expect(authorization).toBe('Token test-api-key');
+      expect(search).toBe('?box=box1');
+      expect(devices.count).toBe(1);
+    });
+
+    it('should find rules in the listing and return null when missing', async () => {
+      mockApiServer.use(
+        http.get(`${BASE}/rules`, () =>
+          HttpResponse.json({ count: 1, results: [{ id: 'rule1', action: 'block' }] })
+        )
+      );
+      const client = createClient();
+
+      expect(await client.getRule('rule1')).toEqual({ id: 'rule1', action: 'block' });
+      expect(await client.getRule('missing')).toBeNull();
+    });
+
+    it('should report the HTTP status of writes', async () => {
+      mockApiServer.use(
+        http.delete(`${BASE}/rules/:id`, () => new HttpResponse(null, { status: 204 }))
+      );
+
+      const result = await createClient().deleteRule('rule1');
+
+      expect(result.status).toBe(204);
+      expect(result.data).toBeNull();
+    });
+  });
+
+  describe('fetchAllPages', () => {
+    function paginatedAlarms(total: number) {
+      return http.get(`${BASE}/alarms`, ({ request }) => {
+        const url = new URL(request.url);
+        const start = Number(url.searchParams.get('cursor') || 0);
+        const limit = Number(url.searchParams.get('limit'));
+        const end = Math.min(start + limit, total);
+        const results = Array.from({ length: end - start }, (_, i) => ({ aid: `alarm${start + i}` }));
+        return HttpResponse.json({
+          count: results.length,
+          results,
+          next_cursor: end < total ? String(end) : null,
+        });
+      });
+    }
+
+    it('should follow cursors until the last page', async () => {
+      mockApiServer.use(paginatedAlarms(25));
+
+      const result = await createClient().fetchAllPages('/alarms', { limit: 10 });
+
+      expect(result.count).toBe(25);
+      expect(result.pages_fetched).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(result.next_cursor).toBeNull();
+    });
+
+    it('should stop at maxResults and keep the cursor for the next page', async () => {
+      mockApiServer.use(paginatedAlarms(25));
+
+      const result = await createClient().fetchAllPages('/alarms', { limit: 10 }, { maxResults: 15 });
+
+      expect(result.count).toBe(15);
+      expect(result.truncated).toBe(true);
+      expect(result.next_cursor).toBe('15');
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry idempotent requests on 503', async () => {
+      let attempts = 0;
+      mockApiServer.use(
+        http.get(`${BASE}/boxes`, () => {
+          attempts++;
+          if (attempts === 1) {
+            return new HttpResponse(null, { status: 503, headers: { 'Retry-After': '0' } });
+          }
+          return HttpResponse.json([{ gid: 'box1' }]);
+        })
+      );
+
+      const boxes = await createClient().listBoxes();
+
+      expect(attempts).toBe(2);
+      expect(boxes.results).toEqual([{ gid: 'box1' }]);
+    });
+
+    it('should turn 429 into a back-off for every queued request', async () => {
+      let attempts = 0;
+      mockApiServer.use(
+        http.get(`${BASE}/boxes`, () => {
+          attempts++;
+          if (attempts === 1) {
+            return new HttpResponse(null, { status: 429, headers: { 'Retry-After': '0' } });
+          }
+          return HttpResponse.json([{ gid: 'box1' }]);
+        })
+      );
+      const limiter = new RequestLimiter();
+      const backOff = vi.spyOn(limiter, 'backOff');
+      const client = new FirewallaMspClient({ domain: 'test.firewalla.net', apiKey: 'test-api-key', maxRetries: 2, limiter });
+
+      const boxes = await client.listBoxes();
+
+      expect(backOff).toHaveBeenCalledWith(0);
+      expect(boxes.results).toEqual([{ gid: 'box1' }]);
+    });
+
+    it('should not retry rule creation', async () => {
+      let attempts = 0;
+      mockApiServer.use(
+        http.post(`${BASE}/rules`, () => {
+          attempts++;
+          return new HttpResponse(null, { status: 503, headers: { 'Retry-After': '0' } });
+        })
+      );
+
+      await expect(
+        createClient().createRule({
+          action: 'block',
+          direction: 'outbound',
+          protocol: 'tcp',
+          target: { type: 'domain', value: 'example.com' },
+        })
+      ).rejects.toThrow();
+      expect(attempts).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { delay, http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createServer, ServerOptions } from '../index.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/rules`, () =>
+    HttpResponse.json({
+      count: 1,
+      results: [{ id: 'rule1', action: 'block', status: 'active', target: { type: 'domain', value: 'example.com' } }],
+    })
+  ),
+  http.get(`${BASE}/alarms`, ({ request }) => {
+    const cursor = new URL(request.url).searchParams.get('cursor');
+    return HttpResponse.json(cursor
+      ? { count: 1, results: [{ aid: 'alarm2' }], next_cursor: null }
+      : { count: 1, results: [{ aid: 'alarm1' }], next_cursor: 'page2' });
+  })
+);
+
+let auditDir: string;
+
+async function connect(options: Partial<ServerOptions> = {}) {
+  const server = createServer({
+    domain: 'test.firewalla.net',
+    apiKey: 'test-api-key',
+    maxRetries: 0,
+    auditLogPath: join(auditDir, 'audit.jsonl'),
+    ...options,
+  });
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  return client;
+}
+
+function text(result: any): string {
+  return result.content[0].text;
+}
+
+describe('createServer', () => {
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-msp-test-'));
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  it('should reject options without an MSP', () => {
+    expect(() => createServer({})).toThrow(/No MSP configured/);
+  });
+
+  it('should reject an unknown default profile', () => {
+    expect(() =>
+      createServer({ domain: 'test.firewalla.net', apiKey: 'key', defaultProfile: 'acme' })
+    ).toThrow(/Default profile "acme"/);
+  });
+
+  it('should reject an unknown time zone', () => {
+    expect(() =>
+      createServer({ domain: 'test.firewalla.net', apiKey: 'key', timeZone: 'Mars/Olympus' })
+    ).toThrow(/Unknown time zone "Mars\/Olympus"/);
+  });
+
+  it('should list tools with a profile argument', async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+
+    expect(names).toContain('list_boxes');
+    expect(names).toContain('create_rule');
+    expect(tools[0].inputSchema.properties).toHaveProperty('profile');
+  });
+
+  it('should hide mutating tools in read-only mode', async () => {
+    const client = await connect({ readOnly: true });
+
+    const names = (await client.listTools()).tools.map((tool) => tool.name);
+
+    expect(names).toContain('list_rules');
+    expect(names).not.toContain('delete_rule');
+    await expect(
+      client.callTool({ name: 'delete_rule', arguments: { id: 'rule1' } })
+    ).rejects.toThrow(/read-only mode/);
+  });
+
+  it('should preview changes with dry_run', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'pause_rule', arguments: { id: 'rule1', dry_run: true } });
+
+    expect(text(result)).toContain('<dry_run>true</dry_run>');
+    expect(text(result)).toContain('paused');
+  });
+
+  it('should fetch every page with all: true', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'list_alarms', arguments: { all: true } });
+
+    expect(text(result)).toContain('alarm1');
+    expect(text(result)).toContain('alarm2');
+    expect(text(result)).toContain('<pages_fetched>2</pages_fetched>');
+  });
+
+  it('should reject arguments that do not match the input schema', async () => {
+    const client = await connect();
+
+    await expect(
+      client.callTool({ name: 'list_alarms', arguments: { limit: 5000 } })
+    ).rejects.toThrow(/limit: must be <= 500/);
+  });
+
+  it('should echo the time range a query resolves to', async () => {
+    const client = await connect({ timeZone: 'Europe/Berlin' });
+
+    const result = await client.callTool({
+      name: 'list_alarms',
+      arguments: { query: 'ts:2026-10-01..2026-10-07' },
+    });
+
+    expect(text(result)).toContain('<time_range_from>2026-10-01T00:00:00+02:00</time_range_from>');
+    expect(text(result)).toContain('<time_range_to>2026-10-07T23:59:59+02:00</time_range_to>');
+    expect(text(result)).toContain('<time_zone>Europe/Berlin</time_zone>');
+  });
+
+  it('should search with structured filters and return the compiled query', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: 'search_alarms',
+      arguments: { filters: { device: '*iphone*', exclude: { category: 'porn' } } },
+    });
+
+    expect(text(result)).toContain('<compiled_query>device.name:*iphone* -remote.category:porn</compiled_query>');
+    await expect(
+      client.callTool({ name: 'search_flows', arguments: {} })
+    ).rejects.toThrow(/search_flows needs a query or at least one filter/);
+  });
+
+  it('should resolve box names in arguments and queries', async () => {
+    const gid = '11111111-1111-4111-8111-111111111111';
+    mockApiServer.use(
+      http.get(`${BASE}/boxes`, () => HttpResponse.json([{ gid, name: 'Office' }])),
+      http.get(`${BASE}/devices`, ({ request }) =>
+        HttpResponse.json(new URL(request.url).searchParams.get('box') === gid ? [{ id: 'AA:BB:CC:DD:EE:FF', gid }] : [])
+      )
+    );
+    const client = await connect();
+
+    const devices = await client.callTool({ name: 'list_devices', arguments: { box: 'office' } });
+    expect(text(devices)).toContain('AA:BB:CC:DD:EE:FF');
+
+    const rules = await client.callTool({ name: 'list_rules', arguments: { query: 'box.id:Office' } });
+    expect(text(rules)).toContain(`<resolved_ids>box.id:Office → ${gid}</resolved_ids>`);
+  });
+
+  it('should report cache hits in metadata', async () => {
+    const client = await connect();
+
+    const first = await client.callTool({ name: 'list_rules', arguments: {} });
+    const second = await client.callTool({ name: 'list_rules', arguments: {} });
+
+    expect(text(first)).toContain('<cache>miss</cache>');
+    expect(text(second)).toContain('<cache>hit</cache>');
+    expect(text(second)).toContain('<cache_age_seconds>0</cache_age_seconds>');
+  });
+
+  it('should report the status of each search_global type', async () => {
+    mockApiServer.use(
+      http.get(`${BASE}/devices`, ({ request }) => {
+        const cursor = new URL(request.url).searchParams.get('cursor');
+        return HttpResponse.json({ count: 1, results: [{ id: cursor ? 'AA:AA:AA:AA:AA:02' : 'AA:AA:AA:AA:AA:01' }], next_cursor: cursor ? null : 'devices-2' });
+      }),
+      http.get(`${BASE}/flows`, () => HttpResponse.json({ message: 'bad key' }, { status: 401 })),
+      http.get(`${BASE}/alarms`, async () => {
+        await delay(5000);
+        return HttpResponse.json({ count: 0, results: [] });
+      })
+    );
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: 'search_global',
+      arguments: { query: 'iphone', types: ['devices', 'flows', 'alarms'], timeout: 1000 },
+    });
+
+    expect(text(result)).toContain('<status>partial</status>');
+    expect(text(result)).toContain('<devices_status>ok</devices_status>');
+    expect(text(result)).toContain('<devices_next_cursor>devices-2</devices_next_cursor>');
+    expect(text(result)).toContain('<flows_error>Authentication failed. Check your API key.</flows_error>');
+    expect(text(result)).toContain('<alarms_status>timeout</alarms_status>');
+    expect(text(result)).toContain('| flows | ❌ error: Authentication failed. Check your API key. | 0 | - |');
+
+    const next = await client.callTool({
+      name: 'search_global',
+      arguments: { query: 'iphone', types: ['devices'], cursors: { devices: 'devices-2' } },
+    });
+    expect(text(next)).toContain('AA:AA:AA:AA:AA:02');
+  });
+
+  it('should report schema drift in metadata', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'list_alarms', arguments: {} });
+
+    expect(text(result)).toContain('<schema_warnings>alarm.gid: expected string, received undefined');
+    expect(text(result)).toContain('Unexpected API Response Format');
+  });
+
+  it('should render responses in the requested format', async () => {
+    const client = await connect({ outputFormat: 'compact' });
+
+    const compact = await client.callTool({ name: 'list_rules', arguments: {} });
+    expect(text(compact)).toContain('list_rules (1 items): Found 1 rules (1 active, 0 paused).');
+    expect(text(compact)).toMatch(/^- id=rule1 .*status=active action=block$/m);
+    expect(text(compact)).not.toContain('<firewalla_response>');
+
+    const json = JSON.parse(text(await client.callTool({ name: 'list_rules', arguments: { format: 'json' } })));
+    expect(json.response_type).toBe('list_rules');
+    expect(json.data.results[0].id).toBe('rule1');
+
+    const markdown = await client.callTool({ name: 'list_rules', arguments: { format: 'markdown' } });
+    expect(text(markdown)).toContain('# Firewall Rules Configuration');
+    expect(text(markdown)).not.toContain('<data>');
+
+    await expect(
+      client.callTool({ name: 'list_rules', arguments: { format: 'yaml' } })
+    ).rejects.toThrow(/format/);
+  });
+
+  it('should reject an unknown output format', () => {
+    expect(() =>
+      createServer({ domain: 'test.firewalla.net', apiKey: 'key', outputFormat: 'yaml' as any })
+    ).toThrow(/Unknown output format "yaml"/);
+  });
+
+  it('should return structured content matching each tool\'s output schema', async () => {
+    const client = await connect();
+    // Listing tools makes the client validate structured content against outputSchema
+    const { tools } = await client.listTools();
+    expect(tools.filter((tool) => !tool.outputSchema).map((tool) => tool.name)).toEqual([]);
+
+    const rules = await client.callTool({ name: 'list_rules', arguments: { format: 'markdown' } });
+    expect(rules.structuredContent).toMatchObject({
+      response_type: 'list_rules',
+      metadata: { query: null, cache: 'miss' },
+      data: { count: 1, results: [{ id: 'rule1', action: 'block' }] },
+    });
+    expect(text(rules)).toContain('# Firewall Rules Configuration');
+
+    const preview = await client.callTool({ name: 'pause_rule', arguments: { id: 'rule1', dry_run: true } });
+    expect(preview.structuredContent).toMatchObject({
+      response_type: 'pause_rule',
+      metadata: { dry_run: true },
+      data: { operation: 'update', changes: [{ field: 'status', before: 'active', after: 'paused' }] },
+    });
+
+    const built = await client.callTool({ name: 'build_query', arguments: { type: 'alarms', filters: { box: 'Office' } } });
+    expect(built.structuredContent).toMatchObject({ data: { query: 'box.name:Office' } });
+  });
+
+  it('should render writes in the requested format', async () => {
+    mockApiServer.use(http.post(`${BASE}/rules/:id/pause`, () => HttpResponse.json({ ok: true })));
+    const client = await connect();
+    await client.listTools();
+
+    const result = await client.callTool({ name: 'pause_rule', arguments: { id: 'rule1', format: 'json' } });
+    const { change_id } = (result.structuredContent as any).data;
+    expect(JSON.parse(text(result))).toMatchObject({
+      data: { operation: 'pause', resource_type: 'rule', resource_id: 'rule1', change_id },
+      metadata: { message: 'Rule paused successfully', change_id },
+    });
+  });
+
+  it('should list profiles without a description against the output schema', async () => {
+    const client = await connect();
+    await client.listTools();
+
+    const result = await client.callTool({ name: 'list_profiles', arguments: {} });
+    expect(result.structuredContent).toMatchObject({
+      data: [{ name: 'default', domain: 'test.firewalla.net', description: null, default: true }],
+    });
+  });
+
+  it('should export every page of a search to CSV', async () => {
+    mockApiServer.use(
+      http.get(`${BASE}/alarms`, ({ request }) => {
+        const cursor = new URL(request.url).searchParams.get('cursor');
+        return HttpResponse.json(cursor
+          ? { count: 1, results: [{ aid: 'alarm2', device: { name: 'TV' }, remote: { domain: 'b.com' } }], next_cursor: null }
+          : { count: 1, results: [{ aid: 'alarm1', device: { name: 'iPhone' } }], next_cursor: 'page2' });
+      })
+    );
+    const exportDirectory = join(auditDir, 'exports');
+    const client = await connect({ exportDirectory });
+
+    const result = await client.callTool({
+      name: 'export_results',
+      arguments: { tool: 'search_alarms', arguments: { filters: { device: '*' } }, filename: 'alarms' },
+    });
+
+    const path = join(exportDirectory, 'alarms.csv');
+    expect(result.structuredContent).toMatchObject({
+      data: { path, file_format: 'csv', row_count: 2, columns: ['aid', 'device.name', 'remote.domain'] },
+    });
+    expect(readFileSync(path, 'utf8')).toBe('aid,device.name,remote.domain\r\nalarm1,iPhone,\r\nalarm2,TV,b.com\r\n');
+    expect(text(result)).not.toContain('iPhone');
+  });
+
+  it('should join boxes, devices, alarms and rules for one box', async () => {
+    const gid = '11111111-2222-3333-4444-555555555555';
+    const alarmQueries: (string | null)[] = [];
+    mockApiServer.use(
+      http.get(`${BASE}/boxes`, () =>
+        HttpResponse.json([{ gid, name: 'Office', model: 'gold', mode: 'router', version: '1.979', online: true, group: 'hq' }])
+      ),
+      http.get(`${BASE}/devices`, () => HttpResponse.json({ message: 'unavailable' }, { status: 503 })),
+      http.get(`${BASE}/alarms`, ({ request }) => {
+        alarmQueries.push(new URL(request.url).searchParams.get('query'));
+        return HttpResponse.json({ count: 2, results: [{ gid, aid: '1', alarmType: 'Video' }, { gid, aid: '2', alarmType: 'Video' }] });
+      }),
+      http.get(`${BASE}/rules`, () =>
+        HttpResponse.json({ count: 2, results: [{ id: 'rule1', gid, status: 'active' }, { id: 'rule2', gid: 'other', status: 'active' }] })
+      )
+    );
+    const client = await connect();
+    await client.listTools();
+
+    const result = await client.callTool({ name: 'get_box', arguments: { box: 'Office', format: 'markdown' } });
+    expect(alarmQueries).toEqual([`box.id:${gid} status:active`]);
+    expect(result.structuredContent).toMatchObject({
+      metadata: { gid, devices_error: expect.any(String) },
+      data: {
+        box: { name: 'Office', version: '1.979' },
+        devices: null,
+        alarms: { open: 2, by_type: { Video: 2 }, truncated: false },
+        rules: { total: 1, active: 1, paused: 0 },
+      },
+    });
+    expect(text(result)).toContain('**Firmware**: 1.979');
+    expect(text(result)).toContain('**💻 Devices**: Unavailable');
+    expect(text(result)).toContain('Office is online with unknown devices, 2 open alarms and 1 active rules.');
+
+    // An unknown box is reported before its alarms are searched
+    await expect(client.callTool({ name: 'get_box', arguments: { box: gid.replace('1111', '9999') } }))
+      .rejects.toThrow(/Resource not found/);
+    expect(alarmQueries).toHaveLength(1);
+  });
+
+  it('should route calls to the named profile', async () => {
+    const client = await connect({
+      profiles: [{ name: 'acme', domain: 'acme.firewalla.net', apiKey: 'acme-key' }],
+    });
+
+    await expect(
+      client.callTool({ name: 'list_boxes', arguments: { profile: 'missing' } })
+    ).rejects.toThrow(/Unknown profile: missing/);
+
+    const result = await client.callTool({ name: 'list_profiles', arguments: {} });
+    expect(text(result)).toContain('acme.firewalla.net');
+    expect(text(result)).toContain('<default_profile>default</default_profile>');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportColumns, exportFileName, flattenRecord, toCSV, toNDJSON, writeExport } from '../export.js';
+
+describe('export', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'firewalla-export-test-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should flatten nested fields into dotted columns', () => {
+    const row = flattenRecord({
+      aid: 1,
+      device: { name: 'iPhone', network: { id: 'lan' } },
+      remote: { domain: 'example.com' },
+      targets: ['a.com', 'b.com'],
+      hits: [{ ts: 1 }],
+      note: null,
+    });
+
+    expect(row).toEqual({
+      aid: 1,
+      'device.name': 'iPhone',
+      'device.network.id': 'lan',
+      'remote.domain': 'example.com',
+      targets: 'a.com; b.com',
+      hits: '[{"ts":1}]',
+      note: null,
+    });
+  });
+
+  it('should collect columns in the order first seen', () => {
+    expect(exportColumns([{ a: 1, b: 2 }, { c: 3, a: 4 }])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should quote CSV cells and neutralize formulas', () => {
+    const csv = toCSV([{ name: 'Office, "main"', value: 3 }, { name: '=HYPERLINK("x")', value: null }], ['name', 'value']);
+
+    expect(csv).toBe('name,value\r\n"Office, ""main""",3\r\n"\'=HYPERLINK(""x"")",\r\n');
+  });
+
+  it('should write one JSON object per line', () => {
+    expect(toNDJSON([{ a: 1 }, { b: 'x' }])).toBe('{"a":1}\n{"b":"x"}\n');
+  });
+
+  it('should name files after the tool unless given a name', () => {
+    expect(exportFileName('list_flows', 'csv', undefined, new Date('2026-10-19T08:30:00.000Z')))
+      .toBe('list_flows-2026-10-19T08-30-00-000Z.csv');
+    expect(exportFileName('list_flows', 'ndjson', 'flows-october')).toBe('flows-october.ndjson');
+    expect(exportFileName('list_flows', 'csv', 'report.CSV')).toBe('report.CSV');
+    expect(() => exportFileName('list_flows', 'csv', '../etc/passwd')).toThrow(/Invalid filename/);
+    expect(() => exportFileName('list_flows', 'csv', '.hidden')).toThrow(/Invalid filename/);
+  });
+
+  it('should write private files and never overwrite', async () => {
+    const path = await writeExport(join(directory, 'nested'), 'report.csv', 'a\r\n');
+
+    expect(readFileSync(path, 'utf8')).toBe('a\r\n');
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    await expect(writeExport(join(directory, 'nested'), 'report.csv', 'b')).rejects.toThrow(/already exists/);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { FirewallaMspClient } from '../client.js';
+import { assessFleet, compareVersions } from '../fleet-health.js';
+import { FirewallaResponseFormatter } from '../formatting.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+const NOW = Date.UTC(2026, 9, 19, 12) / 1000;
+const HOUR = 60 * 60;
+
+let alarmQuery: string | null = null;
+
+// Office spikes today, Warehouse is offline on old firmware, Lab has no rules
+const mockApiServer = setupServer(
+  http.get(`${BASE}/boxes`, () =>
+    HttpResponse.json([
+      { gid: 'office', name: 'Office', online: true, version: '1.980', group: 'hq', ruleCount: 12 },
+      { gid: 'warehouse', name: 'Warehouse', online: false, version: '1.975', group: 'hq', ruleCount: 4, lastSeen: NOW - 48 * HOUR },
+      { gid: 'lab', name: 'Lab', online: true, version: '1.980', ruleCount: 0 },
+      { gid: 'home', name: 'Home', online: true, version: '1.981', ruleCount: 3 },
+    ])
+  ),
+  http.get(`${BASE}/stats/simple`, () => HttpResponse.json({ onlineBoxes: 3, offlineBoxes: 1, alarms: 9, rules: 19 })),
+  http.get(`${BASE}/alarms`, ({ request }) => {
+    alarmQuery = new URL(request.url).searchParams.get('query');
+    const today = Array.from({ length: 6 }, (_, i) => ({ gid: 'office', aid: `t${i}`, ts: NOW - HOUR, type: 1 }));
+    const earlier = [
+      { gid: 'office', aid: 'e1', ts: NOW - 72 * HOUR, type: 1 },
+      { gid: 'home', aid: 'e2', ts: NOW - 72 * HOUR, type: 1 },
+      { gid: 'home', aid: 't9', ts: NOW - 2 * HOUR, type: 1 },
+    ];
+    return HttpResponse.json({ count: 9, results: [...today, ...earlier], next_cursor: null });
+  })
+);
+
+function createClient() {
+  return new FirewallaMspClient({ domain: 'test.firewalla.net', apiKey: 'test-api-key', maxRetries: 0 });
+}
+
+describe('Fleet health', () => {
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+    alarmQuery = null;
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+  });
+
+  it('should compare firmware versions numerically', () => {
+    expect(compareVersions('1.979', '1.980')).toBeLessThan(0);
+    expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.980', '1.980.0')).toBe(0);
+  });
+
+  it('should flag and rank offline, outdated, spiking and rule-less boxes', async () => {
+    const { data, errors } = await assessFleet(createClient(), { now: NOW * 1000 });
+
+    expect(errors).toEqual({});
+    expect(alarmQuery).toBe(`ts:${NOW - 8 * 24 * HOUR}-${NOW}`);
+    expect(data.summary).toMatchObject({ boxes: 4, offline_boxes: 1, majority_version: '1.980', flagged_boxes: 3 });
+    expect(data.boxes.map((box) => [box.rank, box.name, box.issues])).toEqual([
+      [1, 'Warehouse', ['offline', 'outdated_firmware']],
+      [2, 'Office', ['alarm_spike']],
+      [3, 'Lab', ['no_rules']],
+      [4, 'Home', []],
+    ]);
+    expect(data.boxes[1]).toMatchObject({ alarms_24h: 6, alarms_daily_average: 0.1 });
+  });
+
+  it('should skip the checks whose data could not be fetched', async () => {
+    mockApiServer.use(http.get(`${BASE}/alarms`, () => HttpResponse.json({ message: 'unavailable' }, { status: 503 })));
+
+    const { data, errors } = await assessFleet(createClient(), { group: 'hq', now: NOW * 1000 });
+
+    expect(errors.alarms).toBeTruthy();
+    expect(data.boxes.every((box) => box.alarms_24h === null && !box.issues.includes('alarm_spike'))).toBe(true);
+  });
+
+  it('should render flagged boxes as a ranked table', async () => {
+    const { data } = await assessFleet(createClient(), { now: NOW * 1000 });
+    const output = FirewallaResponseFormatter.formatEnhancedResponse(data, 'fleet_health', {}, 'markdown');
+
+    expect(output).toContain('| Rank | Box | Group | Issues |');
+    expect(output).toContain('| 1 | **Warehouse** | hq | 🔴 Offline, ⬆️ Outdated firmware | 1.975 |');
+    expect(output).not.toContain('**Home**');
+    expect(output).toContain('3 of 4 boxes need attention; most urgent: Warehouse (offline, outdated_firmware).');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { parseStringPromise } from 'xml2js';
+import { FirewallaResponseFormatter, formatAsCompact, formatAsJSON, formatAsMarkdown, formatResponse } from '../formatting.js';
 
 // Mock the FirewallaResponseFormatter since it's not exported
 // In a real implementation, we'd test through the MCP server
@@ -289,4 +290,67 @@ describe('Firewalla v1.2.0 Enhanced Formatting', () => {
       expect(response).toBeDefined();
     });
   });
-});
\ No newline at end of file
+});
+describe('Output formats', () => {
+  const rules = { count: 2, results: [
+    { id: 'rule1', action: 'block', status: 'active', target: { type: 'domain', value: 'example.com' } },
+    { id: 'rule2', action: 'allow', status: 'paused', notes: 'a | b' },
+  ] };
+
+  it('should keep key fields one line per item in compact output', () => {
+    const output = formatAsCompact(rules, 'list_rules', { count: 2 });
+
+    expect(output.split('\n')).toEqual([
+      'list_rules (2 items): count=2',
+      '- id=rule1 status=active action=block',
+      '- id=rule2 status=paused action=allow',
+    ]);
+  });
+
+  it('should summarize nested lists in compact output', () => {
+    const output = formatAsCompact({ devices: rules.results, status: 'ok' }, 'search_global', {}, 'Found 2 results.');
+
+    expect(output).toContain('search_global: Found 2 results.');
+    expect(output).toContain('- devices: 2 items');
+    expect(output).toContain('- status=ok');
+  });
+
+  it('should render a markdown table with escaped cells', () => {
+    const output = formatAsMarkdown([{ id: 'x', name: 'a | b' }], 'get_audit_log', { count: 1 });
+
+    expect(output).toContain('## get_audit_log');
+    expect(output).toContain('- **count**: 1');
+    expect(output).toContain('| id | name |\n|---|---|\n| x | a \\| b |');
+  });
+
+  it('should wrap data and metadata in json output', () => {
+    const output = JSON.parse(formatAsJSON(rules, 'list_rules', { count: 2 }, 'Found 2 rules.'));
+
+    expect(output).toEqual({ response_type: 'list_rules', metadata: { count: 2 }, summary: 'Found 2 rules.', data: rules });
+  });
+
+  it('should default to xml', () => {
+    expect(formatResponse(rules, 'list_rules')).toContain('<firewalla_response>');
+    expect(formatResponse(rules, 'list_rules', {}, 'compact')).not.toContain('<firewalla_response>');
+  });
+});
+
+describe('Box formatting', () => {
+  it('should show details and counts for one box', () => {
+    const box = {
+      box: { gid: 'box1', name: 'Office', model: 'gold', mode: 'router', version: '1.979', online: false },
+      devices: { total: 12, online: 9, offline: 3 },
+      alarms: { open: 3, by_type: { 'Abnormal Upload': 1, Video: 2 }, truncated: false },
+      rules: null,
+    };
+    const output = FirewallaResponseFormatter.formatEnhancedResponse(box, 'get_box', { rules_error: 'Not supported' }, 'markdown');
+
+    expect(output).toContain('# 📦 Office');
+    expect(output).toContain('**Status**: 🔴 Offline');
+    expect(output).toContain('**💻 Devices**: 12 (9 online, 3 offline)');
+    expect(output).toContain('**🛡️ Rules**: Unavailable');
+    expect(output).toContain('**rules**: Not supported');
+    expect(output.indexOf('**Video**: 2')).toBeLessThan(output.indexOf('**Abnormal Upload**: 1'));
+    expect(output).toContain('Office is offline with 12 devices, 3 open alarms and unknown active rules.');
+  });
+});
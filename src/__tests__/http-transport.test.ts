@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadTransportOptions } from '../config.js';
+import { RunningHttpServer, startHttpServer } from '../http-transport.js';
+import { ClientRegistry } from '../roles.js';
+import { createServerFactory } from '../server.js';
+
+const TOKEN = 'team-token';
+
+describe('HTTP transport', () => {
+  let running: RunningHttpServer;
+  let baseUrl: string;
+  let auditDir: string;
+
+  beforeAll(async () => {
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-http-test-'));
+    const factory = createServerFactory({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      auditLogPath: join(auditDir, 'audit.jsonl'),
+    });
+    running = await startHttpServer(factory, { port: 0, token: TOKEN });
+    baseUrl = `http://127.0.0.1:${running.address.port}`;
+  });
+
+  afterAll(async () => {
+    await running.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  const requestInit = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+  it('should serve tools over Streamable HTTP', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit }));
+
+    const result: any = await client.callTool({ name: 'list_profiles', arguments: { format: 'json' } });
+    expect(result.structuredContent.data[0].domain).toBe('test.firewalla.net');
+    await client.close();
+  });
+
+  it('should serve tools over SSE', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`), { requestInit }));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('list_profiles');
+    await client.close();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toMatch(/^Bearer/);
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...requestInit.headers, 'Content-Type': 'application/json', 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject requests addressed to another host name', async () => {
+    const status = (host: string) => new Promise<number | undefined>((resolve, reject) => {
+      request(`${baseUrl}/health`, { headers: { Host: host } }, (response) => {
+        response.resume();
+        resolve(response.statusCode);
+      }).on('error', reject).end();
+    });
+
+    expect(await status('attacker.example:80')).toBe(403);
+    expect(await status(`localhost:${running.address.port}`)).toBe(200);
+    expect(await status(`[::1]:${running.address.port}`)).toBe(200);
+  });
+
+  it('should answer health checks without a token', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should refuse to listen beyond loopback without a token', async () => {
+    await expect(startHttpServer(() => { throw new Error('unused'); }, { host: '0.0.0.0', port: 0 }))
+      .rejects.toThrow(/FIREWALLA_HTTP_TOKEN or FIREWALLA_ROLES_FILE is required/);
+  });
+
+  it('should give each client its role\'s tools and keep sessions to their client', async () => {
+    const factory = createServerFactory({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      auditLogPath: join(auditDir, 'audit.jsonl'),
+    });
+    const clients = new ClientRegistry([
+      { name: 'noc', role: 'viewer', token: 'noc-token' },
+      { name: 'ops', role: 'admin', token: 'ops-token' },
+    ]);
+    const roleServer = await startHttpServer(factory, { port: 0, clients });
+    const url = new URL(`http://127.0.0.1:${roleServer.address.port}/mcp`);
+
+    try {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: 'Bearer noc-token' } } });
+      await client.connect(transport);
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toContain('list_alarms');
+      expect(tools.map((tool) => tool.name)).not.toContain('delete_rule');
+
+      const hijack = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer ops-token',
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'Mcp-Session-Id': transport.sessionId!,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      expect(hijack.status).toBe(403);
+
+      const anonymous = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+      expect(anonymous.status).toBe(401);
+      await client.close();
+    } finally {
+      await roleServer.close();
+    }
+  });
+
+  it('should load clients from the roles file', () => {
+    const path = join(auditDir, 'roles.json');
+    writeFileSync(path, JSON.stringify({
+      clients: [
+        { name: 'noc', role: 'viewer', tokenEnv: 'NOC_TOKEN', groups: ['office'] },
+        { name: 'ops', role: 'operator', token: 'ops-token' },
+      ],
+    }));
+
+    const { http } = loadTransportOptions(['--transport', 'http'], { FIREWALLA_ROLES_FILE: path, NOC_TOKEN: 'noc-token' });
+    expect(http.clients?.authenticate('noc-token')).toMatchObject({ name: 'noc', role: 'viewer', groups: ['office'] });
+    expect(() => loadTransportOptions(['--transport', 'http'], { FIREWALLA_ROLES_FILE: path }))
+      .toThrow(/invalid client "noc" in .*roles\.json: environment variable NOC_TOKEN is not set/);
+  });
+
+  it('should read transport options from flags before the environment', () => {
+    const env = { FIREWALLA_TRANSPORT: 'http', FIREWALLA_HTTP_PORT: '8080', FIREWALLA_HTTP_TOKEN: 'secret' };
+
+    expect(loadTransportOptions(['--port', '9090', '--host=0.0.0.0'], env)).toEqual({
+      transport: 'http',
+      http: { host: '0.0.0.0', port: 9090, token: 'secret' },
+    });
+    expect(loadTransportOptions([], {})).toEqual({ transport: 'stdio', http: { host: '127.0.0.1', port: 3000, token: undefined } });
+    expect(() => loadTransportOptions(['--transport', 'ws'], {})).toThrow(/Unknown transport "ws"/);
+    expect(() => loadTransportOptions(['--port', '70000'], {})).toThrow(/--port must be a port number/);
+    expect(() => loadTransportOptions(['--token', 'x'], {})).toThrow(/Unknown option --token/);
+  });
+});
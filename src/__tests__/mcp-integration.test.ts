@@ -52,7 +52,7 @@ describe.skip('MCP Integration Tests', () => {
     mockApiServer.listen();
 
     // Start the MCP server
-    serverProcess = spawn('node', ['dist/index.js'], {
+    serverProcess = spawn('node', ['dist/cli.js'], {
       env: {
         ...process.env,
         FIREWALLA_MSP_API_KEY: 'test-key',
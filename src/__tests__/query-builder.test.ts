@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildQuery } from '../query-builder.js';
+
+// 2024-07-03T09:46:40Z
+const NOW = 1720000000 * 1000;
+
+describe('Query builder', () => {
+  it('should compile filters into alarm qualifiers', () => {
+    const result = buildQuery('alarms', {
+      box: 'Gold Plus',
+      device: '*iphone*',
+      since: '-1h',
+      minDownload: '10MB',
+      exclude: { category: 'porn' },
+    }, { now: NOW });
+
+    expect(result.errors).toEqual([]);
+    expect(result.query).toBe('box.name:"Gold Plus" device.name:*iphone* ts:>=-1h transfer.download:>=10MB -remote.category:porn');
+    expect(result.terms[0]).toEqual({ filter: 'box', term: 'box.name:"Gold Plus"' });
+  });
+
+  it('should use flow qualifiers and ranges for min and max sizes', () => {
+    const result = buildQuery('flows', { domain: '*google*', dport: 443, minTotal: '1MB', maxTotal: '1GB' });
+
+    expect(result.query).toBe('domain:*google* dport:443 total:1MB-1GB');
+  });
+
+  it('should match box IDs and MAC addresses by ID', () => {
+    const result = buildQuery('alarms', {
+      box: '1b2c3d4e-5f60-4a1b-9c2d-3e4f5a6b7c8d',
+      device: 'aa:bb:cc:dd:ee:ff',
+    });
+
+    expect(result.query).toBe('box.id:1b2c3d4e-5f60-4a1b-9c2d-3e4f5a6b7c8d device.id:AA:BB:CC:DD:EE:FF');
+  });
+
+  it('should report invalid filters by name', () => {
+    const result = buildQuery('flows', {
+      type: 1,
+      since: 'last week',
+      minDownload: 'lots',
+      colour: 'red',
+      exclude: { since: '-1h' },
+    } as any, { now: NOW });
+
+    expect(result.errors).toEqual([
+      'colour: unknown filter',
+      'type: not available for flows',
+      expect.stringMatching(/^since: Expected a Unix timestamp/),
+      'minDownload: Expected a size such as 500KB or 1.5MB, got "lots"',
+      'exclude.since: only text, box, device, boxGroup, status, type, category, domain, region, direction, protocol, sport, dport can be excluded',
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { describeQueryErrors, resolveTimeRange, validateQuery } from '../query.js';
+
+// 2024-07-03T09:46:40Z
+const NOW = 1720000000 * 1000;
+
+describe('Query parser', () => {
+  it('should parse text, qualifiers, wildcards and exclusions', () => {
+    const result = validateQuery('iPhone "Living Room" status:active -type:1 device.name:*iphone* box.name:"Gold Plus"', 'alarms', { now: NOW });
+
+    expect(result.valid).toBe(true);
+    expect(result.nodes.map((node) => node.type)).toEqual(['text', 'text', 'qualifier', 'qualifier', 'qualifier', 'qualifier']);
+    expect(result.nodes[1]).toMatchObject({ type: 'text', value: 'Living Room', quoted: true });
+    expect(result.nodes[3]).toMatchObject({ key: 'type', negated: true, value: { kind: 'number', value: 1 } });
+    expect(result.nodes[4]).toMatchObject({ key: 'device.name', value: { kind: 'match', wildcard: true } });
+    expect(result.normalized).toBe('iPhone "Living Room" status:active -type:1 device.name:*iphone* box.name:"Gold Plus"');
+  });
+
+  it('should normalize sizes to bytes', () => {
+    const result = validateQuery('download:>1MB total:>=1.5KB upload:100KB-2MB', 'flows', { now: NOW });
+
+    expect(result.valid).toBe(true);
+    expect(result.nodes[0]).toMatchObject({ value: { kind: 'comparison', operator: '>', value: 1000000 } });
+    expect(result.normalized).toBe('download:>1000000 total:>=1500 upload:100000-2000000');
+  });
+
+  it('should resolve relative times against now', () => {
+    const result = validateQuery('ts:>-24h', 'alarms', { now: NOW });
+
+    expect(result.normalized).toBe('ts:>1719913600');
+  });
+
+  it('should accept ranges of relative times', () => {
+    const result = validateQuery('ts:-7d--1d', 'flows', { now: NOW });
+
+    expect(result.valid).toBe(true);
+    expect(result.normalized).toBe('ts:1719395200-1719913600');
+  });
+
+  it('should reject qualifiers that belong to another entity type', () => {
+    const result = validateQuery('status:active dport:443', 'alarms', { now: NOW });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ position: 14, length: 5 });
+    expect(result.errors[0].message).toMatch(/^Unknown qualifier "dport" for alarms/);
+  });
+
+  it('should suggest the qualified name for a bare field', () => {
+    const result = validateQuery('total:>1MB', 'alarms', { now: NOW });
+
+    expect(result.errors[0].message).toContain('Did you mean "transfer.total"?');
+  });
+
+  it('should report bad values with their position', () => {
+    const result = validateQuery('type:9 transfer.total:>lots', 'alarms', { now: NOW });
+
+    expect(result.errors).toEqual([
+      { message: 'Expected a size such as 500KB or 1.5MB, got "lots"', position: 23, length: 4 },
+    ]);
+  });
+
+  it('should report unterminated quotes and reversed ranges', () => {
+    expect(validateQuery('box.name:"Gold', 'alarms', { now: NOW }).errors).toEqual([
+      { message: 'Unterminated quote', position: 9, length: 5 },
+    ]);
+    expect(validateQuery('ts:200-100', 'alarms', { now: NOW }).errors[0].message).toBe('Range start 200 is after range end 100');
+  });
+
+  it('should read MAC addresses, IPv6 addresses and URLs as search text', () => {
+    const result = validateQuery('aa:bb:cc:dd:ee:ff fe80::1 ::1 https://example.com device.id:aa:bb:cc:dd:ee:ff', 'alarms', { now: NOW });
+
+    expect(result.valid).toBe(true);
+    expect(result.nodes.map((node) => node.type)).toEqual(['text', 'text', 'text', 'text', 'qualifier']);
+    expect(result.nodes[1]).toMatchObject({ type: 'text', value: 'fe80::1' });
+    expect(result.nodes[4]).toMatchObject({ key: 'device.id', value: { kind: 'match', value: 'aa:bb:cc:dd:ee:ff' } });
+    expect(result.normalized).toBe('aa:bb:cc:dd:ee:ff fe80::1 ::1 https://example.com device.id:aa:bb:cc:dd:ee:ff');
+  });
+
+  it('should reject days past the end of the month', () => {
+    expect(validateQuery('ts:2026-02-30', 'alarms', { now: NOW }).errors).toEqual([
+      { message: 'Invalid date "2026-02-30"', position: 3, length: 10 },
+    ]);
+    expect(validateQuery('ts:2026-04-31T10:00', 'alarms', { now: NOW }).valid).toBe(false);
+    expect(validateQuery('ts:2024-02-29', 'alarms', { now: NOW }).valid).toBe(true);
+  });
+
+  it('should reject hours, minutes and seconds out of range', () => {
+    expect(validateQuery('ts:2026-10-01T25:00', 'alarms', { now: NOW }).errors).toEqual([
+      { message: 'Invalid date "2026-10-01T25:00"', position: 3, length: 16 },
+    ]);
+    expect(validateQuery('ts:2026-10-01T10:60', 'alarms', { now: NOW }).valid).toBe(false);
+    expect(validateQuery('ts:2026-10-01T10:00:60Z', 'alarms', { now: NOW }).valid).toBe(false);
+    expect(validateQuery('ts:2026-10-01T23:59:59', 'alarms', { now: NOW }).valid).toBe(true);
+  });
+
+  it('should accept any searchable qualifier without an entity type', () => {
+    expect(validateQuery('dport:443 transfer.total:>1MB', undefined, { now: NOW }).valid).toBe(true);
+  });
+
+  it('should point at errors with a caret', () => {
+    const query = 'status:active box.nmae:bar';
+    const { errors } = validateQuery(query, 'rules', { now: NOW });
+
+    expect(describeQueryErrors(query, errors)).toBe(
+      `${errors[0].message} (at position 14)\n  status:active box.nmae:bar\n                ^^^^^^^^`
+    );
+  });
+});
+
+describe('Query time expressions', () => {
+  it('should read today in the configured time zone', () => {
+    const result = validateQuery('ts:today', 'alarms', { now: NOW, timeZone: 'Europe/Berlin' });
+
+    expect(result.valid).toBe(true);
+    expect(result.normalized).toBe('ts:1719957600-1720043999');
+  });
+
+  it('should compare against whole days', () => {
+    const options = { now: NOW, timeZone: 'America/New_York' };
+
+    expect(validateQuery('ts:>=yesterday', 'alarms', options).normalized).toBe('ts:>=1719892800');
+    expect(validateQuery('ts:>yesterday', 'alarms', options).normalized).toBe('ts:>1719979199');
+  });
+
+  it('should expand date ranges to cover both end days', () => {
+    const result = validateQuery('ts:2026-10-01..2026-10-07', 'flows', { now: NOW, timeZone: 'UTC' });
+
+    expect(result.normalized).toBe('ts:1790812800-1791417599');
+  });
+
+  it('should accept ISO timestamps with and without an offset', () => {
+    expect(validateQuery('ts:>=2024-07-01T08:00+02:00', 'alarms', { now: NOW }).normalized).toBe('ts:>=1719813600');
+    expect(validateQuery('ts:<2024-07-01T08:00', 'alarms', { now: NOW, timeZone: 'Europe/Berlin' }).normalized).toBe('ts:<1719813600');
+  });
+
+  it('should reject unknown time expressions', () => {
+    const result = validateQuery('ts:>last-week', 'alarms', { now: NOW });
+
+    expect(result.errors[0]).toMatchObject({ position: 4, length: 9 });
+    expect(result.errors[0].message).toMatch(/^Expected a Unix timestamp in seconds, a relative time/);
+  });
+
+  it('should resolve the selected time range', () => {
+    const { nodes } = validateQuery('ts:today ts:<-1h -ts:>-5m', 'alarms', { now: NOW, timeZone: 'UTC' });
+
+    expect(resolveTimeRange(nodes)).toEqual({ from: 1719964800, to: 1719996399 });
+    expect(resolveTimeRange(validateQuery('status:active', 'alarms').nodes)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RequestLimiter } from '../rate-limit.js';
+
+describe('RequestLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should cap requests in flight', async () => {
+    const limiter = new RequestLimiter({ requestsPerSecond: 0, maxConcurrent: 2 });
+    const started: string[] = [];
+    const start = (label: string) => limiter.acquire(label).then((release) => {
+      started.push(label);
+      return release;
+    });
+
+    const first = start('a');
+    start('b');
+    start('c');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(limiter.pending).toBe(1);
+
+    (await first)();
+    await vi.waitFor(() => expect(started).toEqual(['a', 'b', 'c']));
+  });
+
+  it('should spread requests beyond the burst over time', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter({ requestsPerSecond: 2, burst: 2, maxConcurrent: 0 });
+    const started: number[] = [];
+    [1, 2, 3, 4].forEach((n) => limiter.acquire(`request ${n}`).then((release) => {
+      started.push(n);
+      release();
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([1, 2, 3]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should hold every request during a back-off and log the queue', async () => {
+    vi.useFakeTimers();
+    const log = vi.fn();
+    const limiter = new RequestLimiter({ requestsPerSecond: 100, maxConcurrent: 0, debugLog: log });
+    let started = false;
+
+    limiter.backOff(2000);
+    limiter.acquire('GET /alarms').then(() => {
+      started = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toBe(false);
+    expect(log).toHaveBeenCalledWith('GET /alarms queued (1 waiting, 0 in flight)');
+
+    await vi.advanceTimersByTimeAsync(20);
+    expect(started).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { FirewallaMspClient } from '../client.js';
+import { EntityResolver } from '../resolver.js';
+import { validateQuery } from '../query.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+const OFFICE = '11111111-1111-4111-8111-111111111111';
+const OFFICE_ANNEX = '22222222-2222-4222-8222-222222222222';
+const HOME = '33333333-3333-4333-8333-333333333333';
+
+let boxRequests = 0;
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/boxes`, () => {
+    boxRequests++;
+    return HttpResponse.json([
+      { gid: OFFICE, name: 'Office' },
+      { gid: OFFICE_ANNEX, name: 'Office Annex' },
+      { gid: HOME, name: 'Home' },
+    ]);
+  }),
+  http.get(`${BASE}/devices`, () =>
+    HttpResponse.json([
+      { id: 'AA:AA:AA:AA:AA:01', gid: OFFICE, name: "Alice's iPhone", ip: '192.168.1.10' },
+      { id: 'AA:AA:AA:AA:AA:02', gid: HOME, name: "Bob's iPhone", ip: '192.168.1.10' },
+      { id: 'AA:AA:AA:AA:AA:03', gid: HOME, name: 'Printer', ip: '192.168.1.20' },
+    ])
+  )
+);
+
+function createResolver() {
+  return new EntityResolver(new FirewallaMspClient({ domain: 'test.firewalla.net', apiKey: 'test-api-key', maxRetries: 0 }));
+}
+
+describe('EntityResolver', () => {
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  afterEach(() => {
+    boxRequests = 0;
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+  });
+
+  it('should pass IDs and MAC addresses through without fetching', async () => {
+    const resolver = createResolver();
+
+    expect(await resolver.resolveBox(OFFICE)).toBe(OFFICE);
+    expect(await resolver.resolveDevice('aa:bb:cc:dd:ee:ff')).toBe('AA:BB:CC:DD:EE:FF');
+    expect(boxRequests).toBe(0);
+  });
+
+  it('should prefer an exact name and cache the box list', async () => {
+    const resolver = createResolver();
+
+    expect(await resolver.resolveBox('office')).toBe(OFFICE);
+    expect(await resolver.resolveBox('home')).toBe(HOME);
+    expect(await resolver.resolveBox('1111')).toBe(OFFICE);
+    expect(boxRequests).toBe(1);
+  });
+
+  it('should fail with ranked candidates when a name is ambiguous', async () => {
+    const resolver = createResolver();
+
+    await expect(resolver.resolveDevice('iphone')).rejects.toThrow(
+      `"iphone" matches 2 devices. Pass one of these IDs instead (best match first):\n` +
+      `1. Alice's iPhone (AA:AA:AA:AA:AA:01) - name contains "iphone"\n` +
+      `2. Bob's iPhone (AA:AA:AA:AA:AA:02) - name contains "iphone"`
+    );
+    await expect(resolver.resolveBox('Garage')).rejects.toThrow('No box matches "Garage". Known boxes include: Office, Office Annex, Home');
+  });
+
+  it('should resolve devices by IP within a box', async () => {
+    const resolver = createResolver();
+
+    await expect(resolver.resolveDevice('192.168.1.10')).rejects.toThrow(/matches 2 devices/);
+    expect(await resolver.resolveDevice('192.168.1.10', HOME)).toBe('AA:AA:AA:AA:AA:02');
+  });
+
+  it('should resolve names in query qualifiers', async () => {
+    const resolver = createResolver();
+    const { nodes } = validateQuery('box.id:Home device.id:"192.168.1.10" device.name:*iphone*', 'alarms');
+
+    const result = await resolver.resolveQuery(nodes);
+
+    expect(result.resolved).toEqual([
+      { key: 'box.id', reference: 'Home', id: HOME },
+      { key: 'device.id', reference: '192.168.1.10', id: 'AA:AA:AA:AA:AA:02' },
+    ]);
+    expect(result.nodes[2]).toBe(nodes[2]);
+  });
+});
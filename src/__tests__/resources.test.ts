@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createServer } from '../index.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+const OFFICE = '11111111-1111-1111-1111-111111111111';
+
+let deviceBox: string | null = null;
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/boxes`, () => HttpResponse.json([{ gid: OFFICE, name: 'Office', model: 'gold', group: 'hq' }])),
+  http.get(`${BASE}/devices`, ({ request }) => {
+    deviceBox = new URL(request.url).searchParams.get('box');
+    return HttpResponse.json([{ id: 'AA:BB:CC:DD:EE:01', gid: OFFICE, name: 'Printer', online: true }]);
+  }),
+  http.get(`${BASE}/alarms`, () => HttpResponse.json({ count: 1, results: [{ gid: OFFICE, aid: '7', type: 1 }] })),
+  http.get(`${BASE}/alarms/:gid/:aid`, ({ params }) => HttpResponse.json({ gid: params.gid, aid: params.aid, ts: 1700000000, type: 1 })),
+  http.get(`${BASE}/rules`, () =>
+    HttpResponse.json({
+      count: 1,
+      results: [{ id: 'rule1', action: 'block', direction: 'outbound', protocol: 'tcp', target: { type: 'domain', value: 'example.com' }, status: 'active' }],
+    })
+  ),
+  http.get(`${BASE}/target-lists`, () => HttpResponse.json([{ id: 'list1', name: 'Ads', owner: 'global', targets: ['ads.com', 'ads.net'] }])),
+  http.get(`${BASE}/target-lists/:id`, ({ params }) =>
+    params.id === 'list1'
+      ? HttpResponse.json({ id: 'list1', name: 'Ads', owner: 'global', targets: ['ads.com', 'ads.net'] })
+      : HttpResponse.json({ message: 'not found' }, { status: 404 })
+  )
+);
+
+describe('Resources', () => {
+  let auditDir: string;
+
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-resources-test-'));
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+    deviceBox = null;
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  async function connect() {
+    const server = createServer({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      maxRetries: 0,
+      cache: false,
+      auditLogPath: join(auditDir, 'audit.jsonl'),
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  async function read(client: Client, uri: string): Promise<any> {
+    const { contents } = await client.readResource({ uri });
+    expect(contents).toEqual([{ uri, mimeType: 'application/json', text: expect.any(String) }]);
+    return JSON.parse(contents[0].text as string);
+  }
+
+  it('should list the collections and every box, rule and target list', async () => {
+    const client = await connect();
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'firewalla://boxes',
+      'firewalla://devices',
+      'firewalla://alarms',
+      'firewalla://rules',
+      'firewalla://target-lists',
+      `firewalla://boxes/${OFFICE}`,
+      'firewalla://rules/rule1',
+      'firewalla://target-lists/list1',
+    ]);
+    expect(resources[5]).toMatchObject({ name: 'Office', description: 'Firewalla gold in group hq' });
+    expect(resources[6]).toMatchObject({ name: 'block outbound tcp example.com', description: 'active block' });
+    expect(resources[7]).toMatchObject({ name: 'Ads', description: '2 targets' });
+  });
+
+  it('should still list the other entities when one listing fails', async () => {
+    mockApiServer.use(http.get(`${BASE}/rules`, () => HttpResponse.json({ message: 'unsupported' }, { status: 500 })));
+    const client = await connect();
+
+    const uris = (await client.listResources()).resources.map((resource) => resource.uri);
+
+    expect(uris).toContain(`firewalla://boxes/${OFFICE}`);
+    expect(uris).not.toContain('firewalla://rules/rule1');
+  });
+
+  it('should list a template for each addressable entity', async () => {
+    const client = await connect();
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((template) => [template.name, template.uriTemplate])).toEqual([
+      ['box', 'firewalla://boxes/{gid}'],
+      ['box_devices', 'firewalla://boxes/{gid}/devices'],
+      ['device', 'firewalla://devices/{id}'],
+      ['alarm', 'firewalla://alarms/{gid}/{aid}'],
+      ['rule', 'firewalla://rules/{id}'],
+      ['target_list', 'firewalla://target-lists/{id}'],
+    ]);
+  });
+
+  it('should read collections', async () => {
+    const client = await connect();
+
+    expect((await read(client, 'firewalla://boxes')).results).toEqual([expect.objectContaining({ gid: OFFICE })]);
+    expect((await read(client, 'firewalla://alarms')).results).toEqual([expect.objectContaining({ aid: '7' })]);
+    expect((await read(client, 'firewalla://rules')).results[0].name).toBe('block outbound tcp example.com');
+    expect((await read(client, 'firewalla://target-lists')).results[0].id).toBe('list1');
+  });
+
+  it('should read the entities the templates expand to', async () => {
+    const client = await connect();
+
+    expect(await read(client, `firewalla://boxes/${OFFICE}`)).toMatchObject({ gid: OFFICE, name: 'Office' });
+    expect((await read(client, `firewalla://boxes/${OFFICE}/devices`)).results[0].name).toBe('Printer');
+    expect(deviceBox).toBe(OFFICE);
+    // Device IDs are MAC addresses, matched whatever their case or encoding
+    expect(await read(client, `firewalla://devices/${encodeURIComponent('aa:bb:cc:dd:ee:01')}`)).toMatchObject({ name: 'Printer' });
+    expect(await read(client, `firewalla://alarms/${OFFICE}/7`)).toMatchObject({ gid: OFFICE, aid: '7' });
+    expect(await read(client, 'firewalla://rules/rule1')).toMatchObject({ id: 'rule1', name: 'block outbound tcp example.com' });
+    expect(await read(client, 'firewalla://target-lists/list1')).toMatchObject({ name: 'Ads', targets: ['ads.com', 'ads.net'] });
+  });
+
+  it('should reject unknown URIs and missing entities', async () => {
+    const client = await connect();
+
+    await expect(client.readResource({ uri: 'firewalla://flows' })).rejects.toThrow('Unknown resource: firewalla://flows');
+    await expect(client.readResource({ uri: 'firewalla://boxes/a/b/c' })).rejects.toThrow(/Unknown resource/);
+    await expect(client.readResource({ uri: 'https://example.com/boxes' })).rejects.toThrow(/Unsupported resource URI/);
+    await expect(client.readResource({ uri: 'firewalla://boxes/missing' })).rejects.toThrow(/Resource not found/);
+    await expect(client.readResource({ uri: 'firewalla://rules/missing' })).rejects.toThrow(/Resource not found/);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClientIdentity, ClientRegistry, createIdentity, createServerFactory } from '../index.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+const OFFICE_BOX = '11111111-1111-1111-1111-111111111111';
+const HOME_BOX = '22222222-2222-2222-2222-222222222222';
+
+let alarmQuery: string | null = null;
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/boxes`, () =>
+    HttpResponse.json([
+      { gid: OFFICE_BOX, name: 'Office', group: 'office' },
+      { gid: HOME_BOX, name: 'Home', group: 'home' },
+    ])
+  ),
+  http.get(`${BASE}/alarms`, ({ request }) => {
+    alarmQuery = new URL(request.url).searchParams.get('query');
+    return HttpResponse.json({
+      count: 2,
+      results: [
+        { gid: OFFICE_BOX, aid: '1', ts: 1700000000, type: 1 },
+        { gid: HOME_BOX, aid: '2', ts: 1700000000, type: 1 },
+      ],
+    });
+  }),
+  http.get(`${BASE}/rules`, () =>
+    HttpResponse.json({ count: 1, results: [{ id: 'rule1', gid: HOME_BOX, status: 'active' }] })
+  )
+);
+
+describe('Roles', () => {
+  let auditDir: string;
+
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-roles-test-'));
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+    alarmQuery = null;
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  async function connect(identity: ClientIdentity) {
+    const server = createServerFactory({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      maxRetries: 0,
+      cache: false,
+      auditLogPath: join(auditDir, 'audit.jsonl'),
+    })(identity);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  describe('createIdentity', () => {
+    it('should give each role more tools than the one before', () => {
+      const viewer = createIdentity({ name: 'v', role: 'viewer' });
+      const operator = createIdentity({ name: 'o', role: 'operator' });
+      const admin = createIdentity({ name: 'a', role: 'admin' });
+
+      expect(viewer.tools.has('list_alarms')).toBe(true);
+      expect(viewer.tools.has('export_results')).toBe(false);
+      expect(operator.tools.has('pause_rule')).toBe(true);
+      expect(operator.tools.has('delete_rule')).toBe(false);
+      expect(admin.tools.has('delete_rule')).toBe(true);
+      expect(admin.tools.has('undo_change')).toBe(true);
+    });
+
+    it('should narrow a role to the listed tools', () => {
+      const identity = createIdentity({ name: 'v', role: 'viewer', tools: ['list_boxes', 'list_alarms'] });
+      expect([...identity.tools]).toEqual(['list_boxes', 'list_alarms']);
+    });
+
+    it('should reject tools outside the role', () => {
+      expect(() => createIdentity({ name: 'v', role: 'viewer', tools: ['delete_rule'] }))
+        .toThrow('delete_rule is not available to role viewer');
+      expect(() => createIdentity({ name: 'x', role: 'root' as any })).toThrow(/unknown role "root"/);
+    });
+
+    it('should drop tools a scoped client cannot use', () => {
+      const grouped = createIdentity({ name: 'o', role: 'admin', groups: ['office'] });
+      const boxed = createIdentity({ name: 'b', role: 'admin', boxes: ['Office'] });
+
+      expect(grouped.tools.has('create_rule')).toBe(false);
+      expect(grouped.tools.has('undo_change')).toBe(false);
+      expect(grouped.tools.has('get_statistics')).toBe(true);
+      expect(boxed.tools.has('get_statistics')).toBe(false);
+      expect(boxed.tools.has('delete_rule')).toBe(true);
+    });
+  });
+
+  describe('ClientRegistry', () => {
+    it('should map tokens to identities', () => {
+      const registry = new ClientRegistry([
+        { name: 'noc', role: 'viewer', token: 'noc-token' },
+        { name: 'ops', role: 'operator', token: 'ops-token' },
+      ]);
+
+      expect(registry.authenticate('ops-token')?.name).toBe('ops');
+      expect(registry.authenticate('wrong')).toBeUndefined();
+    });
+
+    it('should reject duplicate names and shared tokens', () => {
+      expect(() => new ClientRegistry([
+        { name: 'noc', role: 'viewer', token: 'a' },
+        { name: 'noc', role: 'viewer', token: 'b' },
+      ])).toThrow('Duplicate client name: noc');
+      expect(() => new ClientRegistry([
+        { name: 'noc', role: 'viewer', token: 'a' },
+        { name: 'ops', role: 'operator', token: 'a' },
+      ])).toThrow(/reuses another client's token/);
+    });
+  });
+
+  describe('Tool access', () => {
+    it('should hide and reject tools outside the role', async () => {
+      const client = await connect(createIdentity({ name: 'noc', role: 'viewer' }));
+
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toContain('list_alarms');
+      expect(tools.map((tool) => tool.name)).not.toContain('delete_rule');
+
+      await expect(client.callTool({ name: 'delete_rule', arguments: { id: 'rule1' } }))
+        .rejects.toThrow('Tool delete_rule is not available to client noc (role viewer)');
+    });
+
+    it('should limit a group-scoped client to its group', async () => {
+      const client = await connect(createIdentity({ name: 'office-noc', role: 'viewer', groups: ['office'] }));
+
+      const result: any = await client.callTool({ name: 'list_alarms', arguments: { query: 'status:active', format: 'json' } });
+      expect(alarmQuery).toBe('status:active box.group.id:office');
+      expect(result.structuredContent.data.results.map((alarm: any) => alarm.gid)).toEqual([OFFICE_BOX]);
+      expect(result.structuredContent.metadata).not.toHaveProperty('out_of_scope_removed');
+
+      await expect(client.callTool({ name: 'list_boxes', arguments: { group: 'home' } }))
+        .rejects.toThrow(/Group home is outside the boxes and groups client office-noc may access/);
+      await expect(client.callTool({ name: 'get_alarm', arguments: { gid: HOME_BOX, aid: '2' } }))
+        .rejects.toThrow(/No box matches/);
+    });
+
+    it('should resolve names only among a scoped client\'s boxes', async () => {
+      const client = await connect(createIdentity({ name: 'office-noc', role: 'viewer', groups: ['office'] }));
+
+      const error = await client.callTool({ name: 'get_box', arguments: { box: 'Hom' } }).catch((e) => e);
+      expect(error.message).toMatch(/No box matches "Hom"\. Known boxes include: Office/);
+      expect(error.message).not.toContain(HOME_BOX);
+      expect(error.message).not.toContain('Home');
+    });
+
+    it('should reject writes to rules on other boxes', async () => {
+      const client = await connect(createIdentity({ name: 'office-ops', role: 'operator', boxes: [OFFICE_BOX] }));
+
+      await expect(client.callTool({ name: 'pause_rule', arguments: { id: 'rule1' } }))
+        .rejects.toThrow(/Resource not found/);
+    });
+
+    it('should only expose resources whose listing tool the client may call', async () => {
+      const client = await connect(createIdentity({ name: 'alarms-only', role: 'viewer', tools: ['list_alarms'] }));
+
+      expect((await client.listResources()).resources.map((resource) => resource.uri)).toEqual(['firewalla://alarms']);
+      expect((await client.listResourceTemplates()).resourceTemplates.map((template) => template.name)).toEqual(['alarm']);
+      await expect(client.readResource({ uri: 'firewalla://rules' }))
+        .rejects.toThrow('Resource firewalla://rules is not available to client alarms-only (role viewer)');
+      expect((await client.readResource({ uri: 'firewalla://alarms' })).contents).toHaveLength(1);
+    });
+
+    it('should hide resources from scoped clients', async () => {
+      const client = await connect(createIdentity({ name: 'office-noc', role: 'viewer', groups: ['office'] }));
+
+      expect((await client.listResources()).resources).toEqual([]);
+      await expect(client.readResource({ uri: 'firewalla://boxes' })).rejects.toThrow(/Resources are not available/);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createServer } from '../index.js';
+
+const BASE = 'https://test.firewalla.net/v2';
+
+const BLOCK_EXAMPLE = {
+  id: 'rule1',
+  action: 'block',
+  direction: 'bidirection',
+  protocol: 'any',
+  target: { type: 'domain', value: 'example.com' },
+  status: 'active',
+};
+
+// An in-memory rules API, so undo sees the state earlier writes left behind
+let rules = new Map<string, any>();
+let writes: string[] = [];
+let nextId = 0;
+
+const mockApiServer = setupServer(
+  http.get(`${BASE}/rules`, () => HttpResponse.json({ count: rules.size, results: [...rules.values()] })),
+  http.post(`${BASE}/rules`, async ({ request }) => {
+    const body: any = await request.json();
+    const rule = { ...body, id: `new${++nextId}`, status: 'active' };
+    writes.push(`POST /rules ${JSON.stringify(body)}`);
+    rules.set(rule.id, rule);
+    return HttpResponse.json(rule);
+  }),
+  http.put(`${BASE}/rules/:id`, async ({ request, params }) => {
+    const body: any = await request.json();
+    writes.push(`PUT /rules/${params.id} ${JSON.stringify(body)}`);
+    const rule = { ...rules.get(params.id as string), ...body };
+    rules.set(rule.id, rule);
+    return HttpResponse.json(rule);
+  }),
+  http.delete(`${BASE}/rules/:id`, ({ params }) => {
+    writes.push(`DELETE /rules/${params.id}`);
+    rules.delete(params.id as string);
+    return new HttpResponse(null, { status: 204 });
+  }),
+  http.post(`${BASE}/rules/:id/:change`, ({ params }) => {
+    writes.push(`POST /rules/${params.id}/${params.change}`);
+    const rule = rules.get(params.id as string);
+    rule.status = params.change === 'pause' ? 'paused' : 'active';
+    return HttpResponse.json(rule);
+  })
+);
+
+describe('undo_change', () => {
+  let auditDir: string;
+  let logs = 0;
+
+  beforeAll(() => {
+    mockApiServer.listen({ onUnhandledRequest: 'error' });
+    auditDir = mkdtempSync(join(tmpdir(), 'firewalla-undo-test-'));
+  });
+
+  afterEach(() => {
+    mockApiServer.resetHandlers();
+    rules = new Map();
+    writes = [];
+    nextId = 0;
+  });
+
+  afterAll(() => {
+    mockApiServer.close();
+    rmSync(auditDir, { recursive: true, force: true });
+  });
+
+  async function connect() {
+    const server = createServer({
+      domain: 'test.firewalla.net',
+      apiKey: 'test-api-key',
+      maxRetries: 0,
+      cache: false,
+      auditLogPath: join(auditDir, `audit-${++logs}.jsonl`),
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  async function call(client: Client, name: string, args: Record<string, unknown>): Promise<any> {
+    const result: any = await client.callTool({ name, arguments: { ...args, format: 'json' } });
+    return result.structuredContent;
+  }
+
+  const undo = (client: Client, changeId: string) => call(client, 'undo_change', { change_id: changeId });
+
+  it('should restore a rule after an update', async () => {
+    rules.set('rule1', { ...BLOCK_EXAMPLE });
+    const client = await connect();
+    const updated = await call(client, 'update_rule', { id: 'rule1', target: { type: 'domain', value: 'other.com' } });
+
+    const preview = await call(client, 'undo_change', { change_id: updated.metadata.change_id, dry_run: true });
+    expect(preview.data.changes).toEqual([
+      { field: 'target', before: { type: 'domain', value: 'other.com' }, after: { type: 'domain', value: 'example.com' } },
+    ]);
+
+    const result = await undo(client, updated.metadata.change_id);
+
+    expect(result.metadata).toMatchObject({ operation: 'restore', undone_tool: 'update_rule' });
+    expect(rules.get('rule1')).toEqual(BLOCK_EXAMPLE);
+    expect(writes.at(-1)).toMatch(/^PUT \/rules\/rule1 /);
+  });
+
+  it('should recreate a deleted rule and pause it again', async () => {
+    rules.set('rule1', { ...BLOCK_EXAMPLE, status: 'paused' });
+    const client = await connect();
+    const deleted = await call(client, 'delete_rule', { id: 'rule1' });
+
+    const result = await undo(client, deleted.data.change_id);
+
+    expect(result.data).toMatchObject({ operation: 'recreate', resource_id: 'new1', before: null, after: { status: 'paused' } });
+    expect(writes).toEqual([
+      'DELETE /rules/rule1',
+      // Rules are created active, so the status is left out and set by a pause
+      'POST /rules {"action":"block","direction":"bidirection","protocol":"any","target":{"type":"domain","value":"example.com"}}',
+      'POST /rules/new1/pause',
+    ]);
+    expect(rules.get('new1')).toMatchObject({ target: { value: 'example.com' }, status: 'paused' });
+  });
+
+  it('should delete a created rule, and recreate it when that undo is undone', async () => {
+    const client = await connect();
+    const created = await call(client, 'create_rule', {
+      action: 'block', direction: 'bidirection', protocol: 'any', target: { type: 'domain', value: 'example.com' },
+    });
+
+    const undone = await undo(client, created.metadata.change_id);
+    expect(undone.data).toMatchObject({ operation: 'delete', resource_id: 'new1', after: null });
+    expect(rules.size).toBe(0);
+
+    const redone = await undo(client, undone.metadata.change_id);
+    expect(redone.data).toMatchObject({ operation: 'recreate', resource_id: 'new2' });
+    expect(rules.get('new2')).toMatchObject({ target: { value: 'example.com' }, status: 'active' });
+    expect(writes).toEqual([
+      expect.stringMatching(/^POST \/rules /),
+      'DELETE /rules/new1',
+      expect.stringMatching(/^POST \/rules /),
+    ]);
+  });
+
+  it('should refuse to undo a change that failed upstream', async () => {
+    rules.set('rule1', { ...BLOCK_EXAMPLE });
+    mockApiServer.use(http.post(`${BASE}/rules/:id/pause`, () => HttpResponse.json({ message: 'locked' }, { status: 409 })));
+    const client = await connect();
+    await expect(call(client, 'pause_rule', { id: 'rule1' })).rejects.toThrow();
+    const [failed] = (await call(client, 'get_audit_log', {})).data;
+
+    await expect(undo(client, failed.change_id)).rejects.toThrow(/failed upstream, so there is nothing to undo/);
+  });
+
+  it('should refuse to delete a created rule that no longer exists', async () => {
+    const client = await connect();
+    const created = await call(client, 'create_rule', {
+      action: 'block', direction: 'bidirection', protocol: 'any', target: { type: 'domain', value: 'example.com' },
+    });
+    rules.clear();
+
+    await expect(undo(client, created.metadata.change_id)).rejects.toThrow(/The rule created by change .* no longer exists/);
+    expect(writes).toHaveLength(1);
+  });
+
+  it('should refuse to undo a change whose snapshot failed', async () => {
+    rules.set('rule1', { ...BLOCK_EXAMPLE });
+    const client = await connect();
+    mockApiServer.use(http.get(`${BASE}/rules`, () => HttpResponse.json({ message: 'unavailable' }, { status: 503 }), { once: true }));
+    const updated = await call(client, 'update_rule', { id: 'rule1', target: { type: 'domain', value: 'other.com' } });
+    expect(writes).toEqual([expect.stringMatching(/^PUT \/rules\/rule1 /)]);
+
+    await expect(undo(client, updated.metadata.change_id)).rejects.toThrow(/No snapshot was captured before change/);
+    expect(writes).toHaveLength(1);
+    expect(rules.has('rule1')).toBe(true);
+  });
+});
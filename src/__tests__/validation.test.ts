@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { AlarmSchema, schemaWarnings, validateItem, validateList } from '../validation.js';
+
+describe('Response validation', () => {
+  it('should normalize bare arrays without warnings', () => {
+    const data = validateList('/boxes', [{ gid: 'box1', name: 'Office', online: true }]);
+
+    expect(data).toEqual({ count: 1, results: [{ gid: 'box1', name: 'Office', online: true }] });
+    expect(schemaWarnings(data)).toEqual([]);
+  });
+
+  it('should keep unknown fields', () => {
+    const data = validateList('/rules', { count: 1, results: [{ id: 'rule1', newField: 'x' }] });
+
+    expect(data.results[0]).toEqual({ id: 'rule1', newField: 'x' });
+    expect(schemaWarnings(data)).toEqual([]);
+  });
+
+  it('should report drift per field with item counts', () => {
+    const data = validateList('/alarms', {
+      count: 3,
+      results: [
+        { gid: 'box1', aid: '1', ts: '1700000000', type: 9 },
+        { gid: 'box1', aid: '2', ts: '1700000001', type: 9 },
+        { gid: 'box1', aid: '3', ts: 1700000002, type: 9 },
+      ],
+    });
+
+    expect(data.count).toBe(3);
+    expect(schemaWarnings(data)).toEqual([
+      'alarm.ts: expected number, received string (2 of 3 items)',
+    ]);
+  });
+
+  it('should report missing required fields', () => {
+    const data = validateList('/target-lists', [{ id: 'tl1' }]);
+
+    expect(schemaWarnings(data)).toEqual(['target_list.name: expected string, received undefined']);
+  });
+
+  it('should warn when the list shape is unexpected', () => {
+    const data = validateList('/devices', { devices: [] });
+
+    expect(data.results).toEqual([]);
+    expect(schemaWarnings(data)[0]).toMatch(/expected an array or \{ count, results \}/);
+  });
+
+  it('should validate single objects', () => {
+    const alarm = validateItem('alarm', AlarmSchema, { gid: 'box1', aid: '1', ts: 1, type: 9, device: 'phone' });
+
+    expect(schemaWarnings(alarm)).toEqual(['alarm.device: expected object, received string']);
+  });
+});
@@ -0,0 +1,101 @@
+import { ErrorCode, McpError, Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// Server-side enforcement of the JSON Schemas advertised by ListTools. Only the keywords
+// the tool definitions use are supported: type, enum, required, minimum, maximum,
+// properties and items. Unknown properties are allowed, as in JSON Schema.
+
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  required?: string[];
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (typeof value === "object") return "object";
+  return String(value);
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function collectErrors(schema: JsonSchema, value: unknown, path: string, errors: string[]): void {
+  if (schema.type && !matchesType(schema.type, value)) {
+    errors.push(`${path}: must be ${schema.type === "array" || schema.type === "object" ? "an" : "a"} ${schema.type} (got ${describeValue(value)})`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")} (got ${describeValue(value)})`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => collectErrors(schema.items!, item, `${path}[${index}]`, errors));
+  }
+
+  if (matchesType("object", value)) {
+    const record = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : "";
+
+    (schema.required || []).forEach((field) => {
+      if (record[field] === undefined || record[field] === null) {
+        errors.push(`${prefix}${field}: is required`);
+      }
+    });
+
+    Object.entries(schema.properties || {}).forEach(([field, fieldSchema]) => {
+      // Optional fields may be omitted or explicitly null
+      if (record[field] === undefined || record[field] === null) return;
+      collectErrors(fieldSchema, record[field], `${prefix}${field}`, errors);
+    });
+  }
+}
+
+/** Per-field problems with `args`, or an empty list if they match the tool's inputSchema */
+export function findArgumentErrors(tool: Tool, args: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  collectErrors(tool.inputSchema as JsonSchema, args, "", errors);
+  return errors;
+}
+
+/** Throw InvalidParams listing every field that does not match the tool's inputSchema */
+export function validateToolArguments(tool: Tool, args: Record<string, unknown>): void {
+  const errors = findArgumentErrors(tool, args);
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${tool.name}:\n${errors.map((error) => `- ${error}`).join("\n")}`
+    );
+  }
+}
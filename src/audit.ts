@@ -0,0 +1,158 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import axios from "axios";
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { errorMessage } from "./errors.js";
+import { MutationResult } from "./types.js";
+
+export const DEFAULT_AUDIT_LOG_PATH = join(homedir(), ".firewalla-msp-mcp", "audit.jsonl");
+
+export interface AuditEntry {
+  change_id: string;
+  timestamp: string;
+  tool: string;
+  profile?: string;
+  client: string | null;
+  arguments: Record<string, unknown>;
+  resource_type: string;
+  resource_id: string | null;
+  http_status: number | null;
+  success: boolean;
+  error?: string;
+  /** Why the resource could not be read before the change; such changes cannot be undone */
+  snapshot_error?: string;
+  before: any;
+  after: any;
+}
+
+/** Who performed a write and with what arguments */
+export interface AuditOperation {
+  tool: string;
+  profile: string;
+  client: string | null;
+  args: Record<string, unknown>;
+}
+
+export interface AuditTarget {
+  resourceType: string;
+  resourceId?: unknown;
+  /** Read the resource as the API has it now, bypassing the response cache */
+  snapshot?: () => Promise<any>;
+}
+
+/** Append-only JSON Lines log of write operations */
+export class AuditLog {
+  constructor(
+    readonly path: string = DEFAULT_AUDIT_LOG_PATH,
+    private readonly log: (message: string) => void = () => {}
+  ) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(entry) + "\n", "utf8");
+    } catch (error) {
+      // The write already happened upstream; losing the audit record must not fail the tool call
+      console.error(`Failed to write audit log ${this.path}:`, error);
+    }
+  }
+
+  async read(): Promise<AuditEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+    
+    const entries: AuditEntry[] = [];
+    raw.split("\n").forEach((line) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        this.log(`Skipping malformed audit log line: ${line.slice(0, 80)}`);
+      }
+    });
+    return entries;
+  }
+
+  async find(changeId: string): Promise<AuditEntry | undefined> {
+    return (await this.read()).find((entry) => entry.change_id === changeId);
+  }
+
+  /**
+   * Perform a write against the MSP and append the outcome to the log,
+   * including a snapshot of the resource as it was before the change
+   */
+  async record<T = any>(
+    operation: AuditOperation,
+    target: AuditTarget,
+    write: () => Promise<MutationResult<T>>
+  ): Promise<{ result: MutationResult<T>; changeId: string }> {
+    const changeId = randomUUID();
+    let before: any = null;
+    let snapshotError: string | undefined;
+    
+    if (target.snapshot) {
+      try {
+        before = await target.snapshot();
+      } catch (error) {
+        // Recorded so the entry is not mistaken for a change to a resource that did not exist
+        snapshotError = errorMessage(error);
+        this.log(`Could not snapshot ${target.resourceType} ${target.resourceId} before ${operation.tool}: ${snapshotError}`);
+      }
+    }
+    
+    const entry = {
+      change_id: changeId,
+      timestamp: new Date().toISOString(),
+      tool: operation.tool,
+      profile: operation.profile,
+      client: operation.client,
+      arguments: operation.args,
+      resource_type: target.resourceType,
+      ...(snapshotError ? { snapshot_error: snapshotError } : {}),
+      before,
+    };
+    
+    try {
+      const result = await write();
+      const after = result.data ?? null;
+      const resourceId = target.resourceId ?? (after as any)?.id ?? null;
+      await this.append({
+        ...entry,
+        resource_id: resourceId === null ? null : String(resourceId),
+        http_status: result.status,
+        success: true,
+        after,
+      });
+      return { result, changeId };
+    } catch (error) {
+      await this.append({
+        ...entry,
+        resource_id: target.resourceId == null ? null : String(target.resourceId),
+        http_status: axios.isAxiosError(error) ? error.response?.status ?? null : null,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        after: null,
+      });
+      throw error;
+    }
+  }
+}
+
+// Accepts ISO 8601 strings or epoch seconds
+export function parseAuditTime(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  
+  const numeric = Number(value);
+  const time = Number.isFinite(numeric) ? numeric * 1000 : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${field}: expected an ISO 8601 timestamp or epoch seconds`);
+  }
+  return time;
+}
@@ -0,0 +1,68 @@
+import { FirewallaMspClient } from "./client.js";
+import { errorMessage, resourceNotFound } from "./errors.js";
+import { Alarm, Box, Device, Rule } from "./models.js";
+
+// Joins /boxes, /devices, /alarms and /rules into one view of a box for get_box.
+// The box is looked up first; its devices, alarms and rules are then fetched side by side,
+// and if one fails (rules need MSP 2.7.0+) its counts are null and the error is reported
+// instead of failing the whole call.
+
+export interface BoxSummary {
+  box: Box;
+  devices: { total: number; online: number; offline: number } | null;
+  /** Active alarms; `truncated` means there were more than could be fetched */
+  alarms: { open: number; by_type: Record<string, number>; truncated: boolean } | null;
+  rules: { total: number; active: number; paused: number } | null;
+}
+
+function countDevices(devices: Device[]): BoxSummary["devices"] {
+  const online = devices.filter((device) => device.online).length;
+  return { total: devices.length, online, offline: devices.length - online };
+}
+
+function countAlarms(alarms: Alarm[], truncated: boolean): BoxSummary["alarms"] {
+  const byType: Record<string, number> = {};
+  alarms.forEach((alarm) => {
+    const type = alarm.alarmType || `Type ${alarm.type}`;
+    byType[type] = (byType[type] || 0) + 1;
+  });
+  return { open: alarms.length, by_type: byType, truncated };
+}
+
+function countRules(rules: Rule[]): BoxSummary["rules"] {
+  const active = rules.filter((rule) => rule.status === "active").length;
+  return { total: rules.length, active, paused: rules.length - active };
+}
+
+/**
+ * Summarize the box with GID `gid`. Throws a not-found error when no such box exists;
+ * `errors` maps devices, alarms or rules to why they could not be counted.
+ */
+export async function summarizeBox(client: FirewallaMspClient, gid: string): Promise<{ data: BoxSummary; errors: Record<string, string> }> {
+  const box = (await client.listBoxes()).results.find((candidate) => candidate.gid === gid);
+  if (!box) throw resourceNotFound();
+
+  const [devices, alarms, rules] = await Promise.allSettled([
+    client.listDevices({ box: gid }),
+    client.fetchAllPages<Alarm>("/alarms", { query: `box.id:${gid} status:active` }),
+    // The rules API has no box filter, so rules are matched locally
+    client.listRules(),
+  ]);
+
+  const errors: Record<string, string> = {};
+  const settle = <T, R>(name: string, result: PromiseSettledResult<T>, count: (value: T) => R): R | null => {
+    if (result.status === "fulfilled") return count(result.value);
+    errors[name] = errorMessage(result.reason);
+    return null;
+  };
+
+  return {
+    data: {
+      box,
+      devices: settle("devices", devices, (data) => countDevices(data.results.filter((device) => !device.gid || device.gid === gid))),
+      alarms: settle("alarms", alarms, (data) => countAlarms(data.results, data.truncated)),
+      rules: settle("rules", rules, (data) => countRules(data.results.filter((rule) => rule.gid === gid))),
+    },
+    errors,
+  };
+}
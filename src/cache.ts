@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// Caches GET responses per endpoint and parameters so repeated questions in a conversation
+// do not hit the MSP API again. Entries expire per resource (the first path segment) and
+// are dropped when a write touches that resource.
+
+/** Default time-to-live per resource in milliseconds; resources not listed are not cached */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  boxes: 60_000,
+  devices: 60_000,
+  rules: 30_000,
+  "target-lists": 300_000,
+  stats: 300_000,
+  trends: 300_000,
+  alarms: 15_000,
+};
+
+// Writes to one resource also change the counters reported by others
+const INVALIDATES: Record<string, string[]> = {
+  alarms: ["alarms", "boxes", "stats", "trends"],
+  rules: ["rules", "boxes", "stats", "trends"],
+  "target-lists": ["target-lists"],
+};
+
+export interface ResponseCacheOptions {
+  /** Per-resource TTL overrides in milliseconds; 0 disables caching for that resource */
+  ttls?: Record<string, number>;
+  /** Keep entries on disk under this directory so they survive restarts */
+  directory?: string;
+  /** Separates tenants sharing a directory, e.g. the MSP domain */
+  namespace?: string;
+  debugLog?: (message: string) => void;
+}
+
+/** Whether a response came from the cache, and how old it was */
+export interface CacheStatus {
+  hit: boolean;
+  /** Milliseconds since the response was fetched; 0 on a miss */
+  ageMs: number;
+}
+
+interface CacheEntry {
+  storedAt: number;
+  data: unknown;
+}
+
+const statusByValue = new WeakMap<object, CacheStatus>();
+
+export function cacheStatus(value: unknown): CacheStatus | undefined {
+  return value !== null && typeof value === "object" ? statusByValue.get(value) : undefined;
+}
+
+export function attachCacheStatus<T>(value: T, status: CacheStatus | undefined): T {
+  if (status && value !== null && typeof value === "object") {
+    statusByValue.set(value, status);
+  }
+  return value;
+}
+
+/** The resource an API path belongs to, e.g. `/rules/abc/pause` → `rules` */
+export function resourceOf(path: string): string {
+  return path.replace(/^\/+/, "").split(/[/?]/)[0];
+}
+
+function sortedParams(params: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(params).sort().map((key) => [key, params[key]]));
+}
+
+export class ResponseCache {
+  private readonly ttls: Record<string, number>;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly directory?: string;
+  private readonly log: (message: string) => void;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.log = options.debugLog || (() => {});
+    if (options.directory) {
+      const namespace = options.namespace ? createHash("sha256").update(options.namespace).digest("hex").slice(0, 16) : "default";
+      this.directory = join(options.directory, namespace);
+    }
+  }
+
+  ttl(path: string): number {
+    return this.ttls[resourceOf(path)] || 0;
+  }
+
+  private key(path: string, params: Record<string, unknown>): string {
+    return `${path}?${sortedParams(params)}`;
+  }
+
+  private file(resource: string, key: string): string {
+    return join(this.directory!, `${resource}.${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  /** A copy of the cached response, or undefined when missing or expired */
+  async get(path: string, params: Record<string, unknown>): Promise<{ data: unknown; status: CacheStatus } | undefined> {
+    const ttl = this.ttl(path);
+    if (ttl <= 0) return undefined;
+
+    const key = this.key(path, params);
+    let entry = this.entries.get(key);
+    if (!entry && this.directory) {
+      entry = await this.readFromDisk(resourceOf(path), key);
+      if (entry) this.entries.set(key, entry);
+    }
+    if (!entry) return undefined;
+
+    const ageMs = Date.now() - entry.storedAt;
+    if (ageMs >= ttl) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    this.log(`cache hit ${path} (${Math.round(ageMs / 1000)}s old)`);
+    // Callers may annotate results in place, so never hand out the stored object
+    return { data: structuredClone(entry.data), status: { hit: true, ageMs } };
+  }
+
+  async set(path: string, params: Record<string, unknown>, data: unknown): Promise<void> {
+    if (this.ttl(path) <= 0) return;
+
+    const key = this.key(path, params);
+    const entry = { storedAt: Date.now(), data: structuredClone(data) };
+    this.entries.set(key, entry);
+    if (this.directory) {
+      await this.writeToDisk(resourceOf(path), key, entry);
+    }
+  }
+
+  /** Drop every entry a write to `path` may have made stale */
+  async invalidate(path: string): Promise<void> {
+    const resource = resourceOf(path);
+    const stale = new Set(INVALIDATES[resource] || [resource]);
+    this.log(`cache invalidated: ${[...stale].join(", ")}`);
+
+    [...this.entries.keys()]
+      .filter((key) => stale.has(resourceOf(key)))
+      .forEach((key) => this.entries.delete(key));
+
+    if (this.directory) {
+      let files: string[] = [];
+      try {
+        files = await readdir(this.directory);
+      } catch {
+        return;
+      }
+      await Promise.all(files
+        .filter((file) => stale.has(file.split(".")[0]))
+        .map((file) => unlink(join(this.directory!, file)).catch(() => {})));
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async readFromDisk(resource: string, key: string): Promise<CacheEntry | undefined> {
+    try {
+      const stored = JSON.parse(await readFile(this.file(resource, key), "utf8"));
+      return stored.key === key ? { storedAt: stored.storedAt, data: stored.data } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(resource: string, key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await mkdir(this.directory!, { recursive: true });
+      await writeFile(this.file(resource, key), JSON.stringify({ key, ...entry }), "utf8");
+    } catch (error) {
+      // The on-disk copy is only an optimization
+      this.log(`could not write cache entry for ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { loadServerOptionsFromEnv, loadTransportOptions, TransportOptions } from "./config.js";
+import { createDebugLogger } from "./http.js";
+import { startHttpServer } from "./http-transport.js";
+import { createServerFactory, ServerOptions } from "./server.js";
+
+// Start the server
+async function main() {
+  let options: ServerOptions;
+  let transportOptions: TransportOptions;
+  let createServer;
+  try {
+    options = loadServerOptionsFromEnv();
+    transportOptions = loadTransportOptions();
+    createServer = createServerFactory(options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  const mode = options.readOnly ? " (read-only mode)" : "";
+  
+  if (transportOptions.transport === "http") {
+    const running = await startHttpServer(createServer, {
+      ...transportOptions.http,
+      debugLog: createDebugLogger(!!options.debug),
+    });
+    const { address, port } = running.address;
+    const host = address.includes(":") ? `[${address}]` : address;
+    console.error(`Firewalla MSP MCP server listening on http://${host}:${port}/mcp (SSE: /sse)${mode}`);
+    if (transportOptions.http.clients) {
+      console.error(`Role-based access for ${transportOptions.http.clients.size} client(s)`);
+    } else if (!transportOptions.http.token) {
+      console.error("Warning: FIREWALLA_HTTP_TOKEN is not set; any local process can use this server");
+    }
+    
+    const shutdown = () => {
+      running.close().then(() => process.exit(0), () => process.exit(1));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    return;
+  }
+  
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+  console.error(`Firewalla MSP MCP server running${mode}`);
+}
+
+main().catch((error) => {
+  console.error("Server error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,248 @@
+import { AxiosInstance } from "axios";
+import { attachCacheStatus, cacheStatus, CacheStatus, ResponseCache } from "./cache.js";
+import { createHttpClient, HttpClientOptions } from "./http.js";
+import { Alarm, Box, Device, Flow, Rule, SimpleStatistics, StatisticsEntry, TargetList, TrendPoint } from "./models.js";
+import {
+  BoxListParams,
+  CreateRuleInput,
+  CreateTargetListInput,
+  DeviceListParams,
+  ListResponse,
+  MutationResult,
+  PaginatedResult,
+  PaginationOptions,
+  QueryParams,
+  StatisticsType,
+  TrendsType,
+  UpdateRuleInput,
+  UpdateTargetListInput,
+} from "./types.js";
+import {
+  AlarmSchema,
+  attachSchemaWarnings,
+  schemaWarnings,
+  SimpleStatisticsSchema,
+  TargetListSchema,
+  validateItem,
+  validateList,
+} from "./validation.js";
+
+export { normalizeListResponse } from "./validation.js";
+
+export interface FirewallaMspClientOptions extends HttpClientOptions {
+  /** Serve repeated GETs from this cache; writes through the client invalidate it */
+  cache?: ResponseCache;
+}
+
+/** Per-request options for reads */
+export interface RequestOptions {
+  /** Abort the request, e.g. when a caller-side timeout fires */
+  signal?: AbortSignal;
+  /** Skip the cache and ask the API; the answer still refreshes the cache */
+  fresh?: boolean;
+}
+
+// Hard ceilings for fetch-all pagination, regardless of what the caller asks for
+export const PAGINATION_MAX_PAGES = 50;
+export const PAGINATION_MAX_RESULTS = 10000;
+export const PAGINATION_PAGE_SIZE = 500;
+
+// Drop unset parameters so they are not sent as empty query strings
+function compactParams(params: object = {}): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== "")
+  );
+}
+
+/**
+ * Typed client for the Firewalla MSP v2 API.
+ *
+ * List methods always resolve to `{ count, results, next_cursor }`, whichever shape the API returned.
+ * Responses are checked against the schemas in validation.ts; use `schemaWarnings(result)` to see drift.
+ * With a cache, `cacheStatus(result)` tells whether a response was served from it.
+ */
+export class FirewallaMspClient {
+  readonly domain: string;
+  readonly http: AxiosInstance;
+  readonly cache?: ResponseCache;
+
+  constructor(options: FirewallaMspClientOptions) {
+    this.domain = options.domain;
+    this.http = createHttpClient(options);
+    this.cache = options.cache;
+  }
+
+  private async fetch(path: string, params?: object, options: RequestOptions = {}): Promise<{ data: any; status?: CacheStatus }> {
+    const query = compactParams(params);
+    const cached = options.fresh ? undefined : await this.cache?.get(path, query);
+    if (cached) return cached;
+
+    const response = await this.http.get(path, { params: query, signal: options.signal });
+    await this.cache?.set(path, query, response.data);
+    return { data: response.data, status: this.cache?.ttl(path) ? { hit: false, ageMs: 0 } : undefined };
+  }
+
+  /** Fetch one page from any list endpoint, normalized to `{ count, results, next_cursor }` */
+  async list<T = any>(path: string, params?: object, options?: RequestOptions): Promise<ListResponse<T>> {
+    const { data, status } = await this.fetch(path, params, options);
+    return attachCacheStatus(validateList<T>(path, data), status);
+  }
+
+  private async getItem<T>(
+    entity: string,
+    schema: Parameters<typeof validateItem>[1],
+    path: string,
+    params?: object,
+    options?: RequestOptions
+  ): Promise<T> {
+    const { data, status } = await this.fetch(path, params, options);
+    return attachCacheStatus(validateItem<T>(entity, schema, data), status);
+  }
+
+  private async send<T = any>(
+    method: "post" | "put" | "patch" | "delete",
+    path: string,
+    body?: unknown,
+    retrySafe?: boolean
+  ): Promise<MutationResult<T>> {
+    const response = await this.http.request({ method, url: path, data: body, retrySafe });
+    await this.cache?.invalidate(path);
+    // Deletes answer 204 with an empty body, which axios hands back as ""
+    return { status: response.status, data: response.data === "" ? null : response.data };
+  }
+
+  /**
+   * Follow `next_cursor` until the API runs out of pages or a cap is hit.
+   * `params.limit` sets the page size (default 500).
+   */
+  async fetchAllPages<T = any>(path: string, params: QueryParams = {}, options: PaginationOptions = {}): Promise<PaginatedResult<T>> {
+    const cap = Math.min(options.maxResults || PAGINATION_MAX_RESULTS, PAGINATION_MAX_RESULTS);
+    const pageSize = Math.min(params.limit || PAGINATION_PAGE_SIZE, PAGINATION_PAGE_SIZE);
+    const allResults: T[] = [];
+    const warnings = new Set<string>();
+    const statuses: (CacheStatus | undefined)[] = [];
+    let cursor: string | null = params.cursor || null;
+    let pages = 0;
+    
+    while (true) {
+      // Shrink the last page instead of slicing so next_cursor stays accurate
+      const limit = Math.min(pageSize, cap - allResults.length);
+      const data = await this.list<T>(path, { ...params, cursor: cursor || undefined, limit });
+      allResults.push(...data.results);
+      schemaWarnings(data).forEach((warning) => warnings.add(warning));
+      statuses.push(cacheStatus(data));
+      cursor = data.next_cursor || null;
+      pages++;
+      
+      if (!cursor || allResults.length >= cap || pages >= PAGINATION_MAX_PAGES) break;
+    }
+    
+    // Only a walk served entirely from the cache counts as a hit
+    const cached = statuses.every((status) => status?.hit)
+      ? { hit: true, ageMs: Math.max(...statuses.map((status) => status!.ageMs)) }
+      : statuses.some((status) => status) ? { hit: false, ageMs: 0 } : undefined;
+    
+    return attachCacheStatus(attachSchemaWarnings({
+      count: allResults.length,
+      results: allResults,
+      next_cursor: cursor,
+      pages_fetched: pages,
+      truncated: cursor !== null,
+    }, [...warnings]), cached);
+  }
+
+  // Boxes API
+  listBoxes(params: BoxListParams = {}): Promise<ListResponse<Box>> {
+    return this.list("/boxes", params);
+  }
+
+  // Devices API
+  listDevices(params: DeviceListParams = {}): Promise<ListResponse<Device>> {
+    return this.list("/devices", params);
+  }
+
+  // Alarms API
+  listAlarms(params: QueryParams = {}): Promise<ListResponse<Alarm>> {
+    return this.list("/alarms", params);
+  }
+
+  async getAlarm(gid: string, aid: string, options?: RequestOptions): Promise<Alarm> {
+    return this.getItem("alarm", AlarmSchema, `/alarms/${gid}/${aid}`, undefined, options);
+  }
+
+  deleteAlarm(gid: string, aid: string): Promise<MutationResult> {
+    return this.send("delete", `/alarms/${gid}/${aid}`);
+  }
+
+  // Rules API (requires MSP 2.7.0+)
+  listRules(params: Pick<QueryParams, "query"> = {}): Promise<ListResponse<Rule>> {
+    return this.list("/rules", params);
+  }
+
+  /** The rules API has no single-rule GET, so the rule is looked up in the listing. Resolves to null if missing. */
+  async getRule(id: string, options?: RequestOptions): Promise<Rule | null> {
+    const rules = await this.list<Rule>("/rules", {}, options);
+    return rules.results.find((rule) => rule.id === id) ?? null;
+  }
+
+  createRule(input: CreateRuleInput): Promise<MutationResult> {
+    return this.send("post", "/rules", input);
+  }
+
+  updateRule(id: string, changes: UpdateRuleInput): Promise<MutationResult> {
+    return this.send("put", `/rules/${id}`, changes);
+  }
+
+  deleteRule(id: string): Promise<MutationResult> {
+    return this.send("delete", `/rules/${id}`);
+  }
+
+  // Pausing or resuming twice is a no-op, so these POSTs are safe to retry
+  pauseRule(id: string): Promise<MutationResult> {
+    return this.send("post", `/rules/${id}/pause`, undefined, true);
+  }
+
+  resumeRule(id: string): Promise<MutationResult> {
+    return this.send("post", `/rules/${id}/resume`, undefined, true);
+  }
+
+  // Flows API
+  listFlows(params: QueryParams = {}): Promise<ListResponse<Flow>> {
+    return this.list("/flows", params);
+  }
+
+  // Target Lists API
+  listTargetLists(): Promise<ListResponse<TargetList>> {
+    return this.list("/target-lists");
+  }
+
+  async getTargetList(id: string, options?: RequestOptions): Promise<TargetList> {
+    return this.getItem("target_list", TargetListSchema, `/target-lists/${id}`, undefined, options);
+  }
+
+  createTargetList(input: CreateTargetListInput): Promise<MutationResult> {
+    return this.send("post", "/target-lists", input);
+  }
+
+  updateTargetList(id: string, changes: UpdateTargetListInput): Promise<MutationResult> {
+    return this.send("patch", `/target-lists/${id}`, changes);
+  }
+
+  deleteTargetList(id: string): Promise<MutationResult> {
+    return this.send("delete", `/target-lists/${id}`);
+  }
+
+  // Statistics API
+  getStatistics(type: StatisticsType, params: { group?: string; limit?: number } = {}): Promise<ListResponse<StatisticsEntry>> {
+    return this.list(`/stats/${type}`, params);
+  }
+
+  async getSimpleStatistics(params: { group?: string } = {}): Promise<SimpleStatistics> {
+    return this.getItem("simple_statistics", SimpleStatisticsSchema, "/stats/simple", params);
+  }
+
+  // Trends API
+  getTrends(type: TrendsType, params: { group?: string } = {}): Promise<ListResponse<TrendPoint>> {
+    return this.list(`/trends/${type}`, params);
+  }
+}
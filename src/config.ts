@@ -0,0 +1,271 @@
+import { readFileSync } from "node:fs";
+import { OutputFormat } from "./formatting.js";
+import { DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT, DEFAULT_USER_AGENT } from "./http.js";
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, HttpTransportOptions } from "./http-transport.js";
+import { DEFAULT_BURST, DEFAULT_MAX_CONCURRENT_REQUESTS, DEFAULT_REQUESTS_PER_SECOND } from "./rate-limit.js";
+import { ClientOptions, ClientRegistry, Role } from "./roles.js";
+import { DEFAULT_PROFILE_NAME, ProfileOptions, ServerOptions } from "./server.js";
+
+// A profile as written in FIREWALLA_PROFILES_FILE
+interface ProfileConfig {
+  name: string;
+  domain: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  apiKeyFile?: string;
+  description?: string;
+}
+
+// A client as written in FIREWALLA_ROLES_FILE
+interface ClientConfig {
+  name: string;
+  role: Role;
+  token?: string;
+  tokenEnv?: string;
+  tokenFile?: string;
+  tools?: string[];
+  boxes?: string[];
+  groups?: string[];
+}
+
+type Env = Record<string, string | undefined>;
+
+function readIntegerEnv(env: Env, name: string, defaultValue: number, min: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return defaultValue;
+  
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be an integer >= ${min} (got "${raw}")`);
+  }
+  return value;
+}
+
+// FIREWALLA_CACHE_TTLS lists `resource=seconds` pairs, e.g. `boxes=300,alarms=0`
+function readCacheTtls(env: Env): Record<string, number> | undefined {
+  const raw = env.FIREWALLA_CACHE_TTLS;
+  if (!raw) return undefined;
+  
+  return Object.fromEntries(raw.split(",").filter((pair) => pair.trim()).map((pair) => {
+    const [resource, seconds] = pair.split("=").map((part) => part?.trim());
+    const value = Number(seconds);
+    if (!resource || seconds === undefined || seconds === "" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`FIREWALLA_CACHE_TTLS must be a list of resource=seconds pairs (got "${pair.trim()}")`);
+    }
+    return [resource, value * 1000];
+  }));
+}
+
+function resolveProfileKey(env: Env, config: ProfileConfig): { apiKey: string; keySource: string } {
+  if (config.apiKeyEnv) {
+    const apiKey = env[config.apiKeyEnv];
+    if (!apiKey) throw new Error(`environment variable ${config.apiKeyEnv} is not set`);
+    return { apiKey, keySource: `env:${config.apiKeyEnv}` };
+  }
+  if (config.apiKeyFile) {
+    return { apiKey: readFileSync(config.apiKeyFile, "utf8").trim(), keySource: `file:${config.apiKeyFile}` };
+  }
+  if (config.apiKey) {
+    return { apiKey: config.apiKey, keySource: "inline" };
+  }
+  throw new Error("one of apiKeyEnv, apiKeyFile or apiKey is required");
+}
+
+function loadProfilesFile(env: Env, path: string): { profiles: ProfileOptions[]; defaultProfile: string | undefined } {
+  let config: { default?: string; profiles?: ProfileConfig[] };
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`could not read FIREWALLA_PROFILES_FILE ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  const names = new Set<string>();
+  const profiles = (config.profiles || []).map((profileConfig, index): ProfileOptions => {
+    const label = profileConfig?.name ? `profile "${profileConfig.name}"` : `profile #${index + 1}`;
+    try {
+      if (!profileConfig.name || !profileConfig.domain) throw new Error("name and domain are required");
+      if (names.has(profileConfig.name)) throw new Error("duplicate profile name");
+      names.add(profileConfig.name);
+      
+      const { apiKey, keySource } = resolveProfileKey(env, profileConfig);
+      return {
+        name: profileConfig.name,
+        domain: profileConfig.domain,
+        apiKey,
+        keySource,
+        description: profileConfig.description,
+      };
+    } catch (error) {
+      throw new Error(`invalid ${label} in ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  
+  if (profiles.length === 0 && !(env.FIREWALLA_MSP_API_KEY && env.FIREWALLA_MSP_DOMAIN)) {
+    throw new Error(`${path} does not define any profiles`);
+  }
+  if (config.default && !names.has(config.default) && config.default !== DEFAULT_PROFILE_NAME) {
+    throw new Error(`default profile "${config.default}" is not defined in ${path}`);
+  }
+  
+  return { profiles, defaultProfile: config.default };
+}
+
+function resolveClientToken(env: Env, config: ClientConfig): string {
+  if (config.tokenEnv) {
+    const token = env[config.tokenEnv];
+    if (!token) throw new Error(`environment variable ${config.tokenEnv} is not set`);
+    return token;
+  }
+  if (config.tokenFile) {
+    return readFileSync(config.tokenFile, "utf8").trim();
+  }
+  if (config.token) {
+    return config.token;
+  }
+  throw new Error("one of tokenEnv, tokenFile or token is required");
+}
+
+function loadRolesFile(env: Env, path: string): ClientRegistry {
+  let config: { clients?: ClientConfig[] };
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`could not read FIREWALLA_ROLES_FILE ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  const clients = (config.clients || []).map((clientConfig, index): ClientOptions => {
+    const label = clientConfig?.name ? `client "${clientConfig.name}"` : `client #${index + 1}`;
+    try {
+      if (!clientConfig.name || !clientConfig.role) throw new Error("name and role are required");
+      return {
+        name: clientConfig.name,
+        role: clientConfig.role,
+        token: resolveClientToken(env, clientConfig),
+        tools: clientConfig.tools,
+        boxes: clientConfig.boxes,
+        groups: clientConfig.groups,
+      };
+    } catch (error) {
+      throw new Error(`invalid ${label} in ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  
+  if (clients.length === 0) {
+    throw new Error(`${path} does not define any clients`);
+  }
+  try {
+    return new ClientRegistry(clients);
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : error} in ${path}`);
+  }
+}
+
+/**
+ * Build server options from the environment variables documented in .env.example.
+ * Throws with a user-facing message when the configuration is incomplete or invalid.
+ */
+export function loadServerOptionsFromEnv(env: Env = process.env): ServerOptions {
+  const apiKey = env.FIREWALLA_MSP_API_KEY;
+  const domain = env.FIREWALLA_MSP_DOMAIN;
+  const profilesFile = env.FIREWALLA_PROFILES_FILE;
+  
+  // With a profiles file the single-MSP variables are optional
+  if (!profilesFile) {
+    if (!apiKey) {
+      throw new Error("FIREWALLA_MSP_API_KEY environment variable is required");
+    }
+    if (!domain) {
+      throw new Error("FIREWALLA_MSP_DOMAIN environment variable is required");
+    }
+  }
+  
+  const { profiles, defaultProfile } = profilesFile
+    ? loadProfilesFile(env, profilesFile)
+    : { profiles: [], defaultProfile: undefined };
+  
+  // The single-MSP environment variables still work alongside a profiles file
+  if (apiKey && domain && !profiles.some((profile) => profile.name === DEFAULT_PROFILE_NAME)) {
+    profiles.push({
+      name: DEFAULT_PROFILE_NAME,
+      domain,
+      apiKey,
+      keySource: "env:FIREWALLA_MSP_API_KEY",
+    });
+  }
+  
+  return {
+    profiles,
+    defaultProfile,
+    timeout: readIntegerEnv(env, "FIREWALLA_API_TIMEOUT", DEFAULT_TIMEOUT, 0),
+    maxRetries: readIntegerEnv(env, "FIREWALLA_MAX_RETRIES", DEFAULT_MAX_RETRIES, 0),
+    rateLimit: {
+      requestsPerSecond: readIntegerEnv(env, "FIREWALLA_RATE_LIMIT", DEFAULT_REQUESTS_PER_SECOND, 0),
+      burst: readIntegerEnv(env, "FIREWALLA_RATE_BURST", DEFAULT_BURST, 1),
+      maxConcurrent: readIntegerEnv(env, "FIREWALLA_MAX_CONCURRENT_REQUESTS", DEFAULT_MAX_CONCURRENT_REQUESTS, 0),
+    },
+    userAgent: env.FIREWALLA_USER_AGENT || DEFAULT_USER_AGENT,
+    debug: env.FIREWALLA_DEBUG === "true",
+    readOnly: env.FIREWALLA_READ_ONLY === "true",
+    auditLogPath: env.FIREWALLA_AUDIT_LOG || undefined,
+    timeZone: env.FIREWALLA_TIMEZONE || undefined,
+    outputFormat: (env.FIREWALLA_OUTPUT_FORMAT || undefined) as OutputFormat | undefined,
+    exportDirectory: env.FIREWALLA_EXPORT_DIR || undefined,
+    cache: env.FIREWALLA_CACHE === "false"
+      ? false
+      : { ttls: readCacheTtls(env), directory: env.FIREWALLA_CACHE_DIR || undefined },
+  };
+}
+
+export type TransportKind = "stdio" | "http";
+
+export interface TransportOptions {
+  transport: TransportKind;
+  http: HttpTransportOptions;
+}
+
+const TRANSPORT_FLAGS = ["transport", "host", "port"];
+
+// `--name value` and `--name=value` flags; the token is only read from the environment so it stays out of `ps`
+function parseFlags(argv: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match || !TRANSPORT_FLAGS.includes(match[1])) {
+      throw new Error(`Unknown option ${argv[i]}; supported options are ${TRANSPORT_FLAGS.map((flag) => `--${flag}`).join(", ")}`);
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) throw new Error(`--${match[1]} needs a value`);
+    flags[match[1]] = value;
+  }
+  return flags;
+}
+
+/**
+ * Pick the transport from the command line (`--transport http --host 0.0.0.0 --port 8080`),
+ * falling back to FIREWALLA_TRANSPORT, FIREWALLA_HTTP_HOST, FIREWALLA_HTTP_PORT and FIREWALLA_HTTP_TOKEN.
+ * For http, FIREWALLA_ROLES_FILE gives each client its own token and role.
+ */
+export function loadTransportOptions(argv: string[] = process.argv.slice(2), env: Env = process.env): TransportOptions {
+  const flags = parseFlags(argv);
+  
+  const transport = flags.transport || env.FIREWALLA_TRANSPORT || "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport "${transport}"; use stdio or http`);
+  }
+  
+  const [portName, portValue] = flags.port !== undefined ? ["--port", flags.port] : ["FIREWALLA_HTTP_PORT", env.FIREWALLA_HTTP_PORT];
+  const port = readIntegerEnv({ [portName]: portValue }, portName, DEFAULT_HTTP_PORT, 0);
+  if (port > 65535) {
+    throw new Error(`${portName} must be a port number up to 65535 (got "${portValue}")`);
+  }
+  
+  return {
+    transport,
+    http: {
+      host: flags.host || env.FIREWALLA_HTTP_HOST || DEFAULT_HTTP_HOST,
+      port,
+      token: env.FIREWALLA_HTTP_TOKEN || undefined,
+      clients: transport === "http" && env.FIREWALLA_ROLES_FILE ? loadRolesFile(env, env.FIREWALLA_ROLES_FILE) : undefined,
+    },
+  };
+}
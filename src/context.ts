@@ -0,0 +1,49 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AuditLog } from "./audit.js";
+import { FirewallaMspClient } from "./client.js";
+import { OutputFormat } from "./formatting.js";
+import { EntityResolver } from "./resolver.js";
+import { ClientIdentity } from "./roles.js";
+
+/** A named MSP tenant and the client used to reach it */
+export interface Profile {
+  name: string;
+  domain: string;
+  /** Where the API key came from (e.g. `env:ACME_KEY`), never the key itself */
+  keySource: string;
+  description: string | null;
+  client: FirewallaMspClient;
+  /** Turns box and device names into IDs for this tenant */
+  resolver: EntityResolver;
+}
+
+/** Per-server state shared by the tool, resource and prompt handlers */
+export interface ServerContext {
+  server: Server;
+  profiles: Map<string, Profile>;
+  defaultProfile: string;
+  readOnly: boolean;
+  /** IANA zone for calendar expressions in queries such as `ts:today` */
+  timeZone: string;
+  /** Response format used when a tool call does not pass `format` */
+  outputFormat: OutputFormat;
+  /** Where export_results writes its files */
+  exportDirectory: string;
+  auditLog: AuditLog;
+  /** The authenticated HTTP client; undefined for stdio and single-token servers, which may use every tool */
+  identity?: ClientIdentity;
+  debugLog: (message: string) => void;
+}
+
+export function resolveProfile(ctx: ServerContext, name?: unknown): Profile {
+  const profileName = name === undefined || name === null || name === "" ? ctx.defaultProfile : String(name);
+  const profile = ctx.profiles.get(profileName);
+  if (!profile) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown profile: ${profileName}. Available profiles: ${[...ctx.profiles.keys()].join(", ")}`
+    );
+  }
+  return profile;
+}
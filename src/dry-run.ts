@@ -0,0 +1,47 @@
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// Top-level field differences between two versions of a resource
+export function diffResources(before: any, after: any): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+  
+  fields.forEach((field) => {
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  });
+  
+  return changes;
+}
+
+// What a mutating tool would do, as response data and metadata, without sending the write
+export function describeDryRun(
+  operation: "create" | "update" | "delete",
+  resourceType: string,
+  resourceId: unknown,
+  before: any,
+  after: any
+) {
+  const changes = diffResources(before, after);
+  return {
+    data: {
+      operation,
+      resource_type: resourceType,
+      resource_id: resourceId ?? null,
+      before: before ?? null,
+      after: after ?? null,
+      changes,
+    },
+    metadata: {
+      dry_run: true,
+      operation,
+      change_count: changes.length,
+    },
+  };
+}
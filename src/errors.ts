@@ -0,0 +1,44 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import axios from "axios";
+
+// Translate Firewalla API failures into MCP errors
+export function toMcpError(error: unknown): unknown {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const message = error.response?.data?.message || error.message;
+    
+    if (status === 401) {
+      return new McpError(ErrorCode.InvalidRequest, "Authentication failed. Check your API key.");
+    } else if (status === 404) {
+      return new McpError(ErrorCode.InvalidRequest, "Resource not found.");
+    } else if (status === 400) {
+      return new McpError(ErrorCode.InvalidRequest, `Bad request: ${message}`);
+    } else if (status === 429) {
+      const retries = error.config?.retryCount || 0;
+      return new McpError(
+        ErrorCode.InternalError,
+        `Rate limited by the Firewalla MSP API (HTTP 429)${retries ? ` after ${retries} retries` : ""}. Wait a moment and try again, or lower FIREWALLA_RATE_LIMIT.`
+      );
+    }
+    
+    return new McpError(
+      ErrorCode.InternalError,
+      `API request failed: ${message}`
+    );
+  }
+  
+  return error;
+}
+
+/** A one-line description of a failure, without the MCP error code prefix */
+export function errorMessage(error: unknown): string {
+  const mapped = toMcpError(error);
+  if (mapped instanceof McpError) {
+    return mapped.message.replace(/^MCP error -?\d+: /, "");
+  }
+  return mapped instanceof Error ? mapped.message : String(mapped);
+}
+
+export function resourceNotFound(): McpError {
+  return new McpError(ErrorCode.InvalidRequest, "Resource not found.");
+}
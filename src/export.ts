@@ -0,0 +1,114 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { mkdir, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+// Writes list and search results to CSV or NDJSON files for use outside the conversation.
+// Records are flattened to one level (`device.name`, `remote.domain`) so both formats share
+// the same columns.
+
+export const DEFAULT_EXPORT_DIRECTORY = join(homedir(), ".firewalla-msp-mcp", "exports");
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson"];
+
+/** Tools whose results can be exported; the paginated ones are fetched in full */
+export const EXPORTABLE_TOOLS = [
+  "list_boxes",
+  "list_devices",
+  "list_alarms",
+  "list_rules",
+  "list_flows",
+  "list_target_lists",
+  "get_statistics",
+  "get_trends",
+  "search_global",
+  "search_devices",
+  "search_alarms",
+  "search_flows",
+  "get_audit_log",
+];
+
+const FILE_NAME_PATTERN = /^[\w-][\w.-]*$/;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Flatten nested objects into dotted keys. Arrays of plain values are joined with "; ",
+ * other arrays are kept as JSON.
+ */
+export function flattenRecord(value: unknown, prefix = "", into: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    into[prefix || "value"] = value ?? null;
+    return into;
+  }
+
+  if (Array.isArray(value)) {
+    const plain = value.every((item) => item === null || typeof item !== "object");
+    into[prefix || "value"] = plain ? value.join("; ") : JSON.stringify(value);
+    return into;
+  }
+
+  Object.entries(value).forEach(([key, child]) => {
+    flattenRecord(child, prefix ? `${prefix}.${key}` : key, into);
+  });
+  return into;
+}
+
+/** Every column that appears in `rows`, in the order first seen */
+export function exportColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((column) => columns.add(column)));
+  return [...columns];
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(rows: Record<string, unknown>[], columns: string[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  rows.forEach((row) => lines.push(columns.map((column) => csvCell(row[column])).join(",")));
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toNDJSON(rows: Record<string, unknown>[]): string {
+  return rows.map((row) => JSON.stringify(row) + "\n").join("");
+}
+
+/** The file name to write: the caller's, with the extension added, or `<tool>-<timestamp>.<ext>` */
+export function exportFileName(tool: string, format: ExportFormat, requested?: string, now = new Date()): string {
+  if (!requested) {
+    return `${tool}-${now.toISOString().replace(/[:.]/g, "-")}.${format}`;
+  }
+  if (!FILE_NAME_PATTERN.test(requested)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid filename "${requested}": use letters, digits, dots, dashes and underscores only, without a directory`
+    );
+  }
+  return requested.toLowerCase().endsWith(`.${format}`) ? requested : `${requested}.${format}`;
+}
+
+/** Write an export into `directory` without replacing existing files; resolves to the file path */
+export async function writeExport(directory: string, fileName: string, contents: string): Promise<string> {
+  const path = resolve(directory, fileName);
+  await mkdir(directory, { recursive: true });
+  try {
+    // Exports hold network data, so keep them private to the server's user
+    await writeFile(path, contents, { encoding: "utf8", flag: "wx", mode: 0o600 });
+  } catch (error: any) {
+    if (error?.code === "EEXIST") {
+      throw new McpError(ErrorCode.InvalidParams, `${path} already exists; pass a different filename`);
+    }
+    throw error;
+  }
+  return path;
+}
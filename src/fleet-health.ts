@@ -0,0 +1,179 @@
+import { FirewallaMspClient } from "./client.js";
+import { errorMessage } from "./errors.js";
+import { Alarm, Box, SimpleStatistics } from "./models.js";
+
+// Fleet-wide health check for fleet_health. Combines the box listing, the simple statistics
+// and an alarm search over the last SPIKE_BASELINE_DAYS + 1 days to flag boxes that are
+// offline, run older firmware than most of the fleet, raise far more alarms than usual, or
+// have no rules. Boxes are ranked by the weight of their issues.
+
+export type FleetIssue = "offline" | "alarm_spike" | "outdated_firmware" | "no_rules";
+
+/** How much each issue counts towards a box's rank */
+export const ISSUE_WEIGHTS: Record<FleetIssue, number> = {
+  offline: 3,
+  alarm_spike: 2,
+  outdated_firmware: 1,
+  no_rules: 1,
+};
+
+/** Days before the last 24 hours that make up a box's usual alarm rate */
+export const SPIKE_BASELINE_DAYS = 7;
+/** A spike is at least this many times the daily average … */
+export const SPIKE_FACTOR = 3;
+/** … and at least this many alarms, so quiet boxes do not spike on a handful */
+export const SPIKE_MIN_ALARMS = 5;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface BoxHealth {
+  rank: number;
+  gid: string;
+  name: string;
+  group: string | null;
+  online: boolean;
+  lastSeen: number | null;
+  version: string | null;
+  /** Alarms in the last 24 hours; null when alarms could not be searched */
+  alarms_24h: number | null;
+  /** Alarms per day over the baseline days */
+  alarms_daily_average: number | null;
+  /** Rules on the box; null when unknown */
+  rules: number | null;
+  issues: FleetIssue[];
+  score: number;
+}
+
+export interface FleetHealth {
+  summary: {
+    boxes: number;
+    online_boxes: number | null;
+    offline_boxes: number | null;
+    alarms: number | null;
+    rules: number | null;
+    majority_version: string | null;
+    flagged_boxes: number;
+  };
+  /** Every box, most urgent first */
+  boxes: BoxHealth[];
+}
+
+/** Compare dotted firmware versions numerically, e.g. 1.979 < 1.980 and 1.9 < 1.10 */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(/[^\d]+/).filter(Boolean).map(Number);
+  const right = b.split(/[^\d]+/).filter(Boolean).map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+// The version most boxes run; ties go to the newer version
+function majorityVersion(boxes: Box[]): string | null {
+  const counts = new Map<string, number>();
+  boxes.forEach((box) => {
+    if (box.version) counts.set(box.version, (counts.get(box.version) || 0) + 1);
+  });
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1] || compareVersions(b[0], a[0]));
+  return ranked[0]?.[0] ?? null;
+}
+
+// Rule counts per box: from the listing when every box has one, otherwise from /rules
+async function countRules(client: FirewallaMspClient, boxes: Box[]): Promise<Map<string, number>> {
+  if (boxes.every((box) => typeof box.ruleCount === "number")) {
+    return new Map(boxes.map((box) => [box.gid, box.ruleCount!]));
+  }
+  const counts = new Map<string, number>(boxes.map((box) => [box.gid, 0]));
+  (await client.listRules()).results.forEach((rule) => {
+    if (rule.gid && counts.has(rule.gid)) counts.set(rule.gid, counts.get(rule.gid)! + 1);
+  });
+  return counts;
+}
+
+/**
+ * Check every box, or those of one group. Failures of the statistics, alarm or rule fetches
+ * are reported in `errors` and skip the checks that need them; a failing box listing throws.
+ */
+export async function assessFleet(
+  client: FirewallaMspClient,
+  options: { group?: string; now?: number } = {}
+): Promise<{ data: FleetHealth; errors: Record<string, string>; truncated: boolean }> {
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const since = now - (SPIKE_BASELINE_DAYS + 1) * DAY_SECONDS;
+  const dayStart = now - DAY_SECONDS;
+  const query = [`ts:${since}-${now}`, options.group ? `box.group.id:${options.group}` : ""].filter(Boolean).join(" ");
+
+  const boxes = (await client.listBoxes({ group: options.group })).results;
+  const [statistics, alarms, rules] = await Promise.allSettled([
+    client.getSimpleStatistics({ group: options.group }),
+    client.fetchAllPages<Alarm>("/alarms", { query }),
+    countRules(client, boxes),
+  ]);
+
+  const errors: Record<string, string> = {};
+  const settled = <T>(name: string, result: PromiseSettledResult<T>): T | null => {
+    if (result.status === "fulfilled") return result.value;
+    errors[name] = errorMessage(result.reason);
+    return null;
+  };
+  const stats: SimpleStatistics | null = settled("statistics", statistics);
+  const alarmPage = settled("alarms", alarms);
+  const ruleCounts = settled("rules", rules);
+
+  const recent = new Map<string, number>();
+  const baseline = new Map<string, number>();
+  alarmPage?.results.forEach((alarm) => {
+    const counts = alarm.ts >= dayStart ? recent : baseline;
+    counts.set(alarm.gid, (counts.get(alarm.gid) || 0) + 1);
+  });
+
+  const majority = majorityVersion(boxes);
+  const assessed = boxes.map((box): BoxHealth => {
+    const alarms24h = alarmPage ? recent.get(box.gid) || 0 : null;
+    const average = (baseline.get(box.gid) || 0) / SPIKE_BASELINE_DAYS;
+    const ruleCount = ruleCounts?.get(box.gid) ?? null;
+
+    const issues: FleetIssue[] = [];
+    if (!box.online) issues.push("offline");
+    if (alarms24h !== null && alarms24h >= SPIKE_MIN_ALARMS && alarms24h >= SPIKE_FACTOR * average) issues.push("alarm_spike");
+    if (majority && box.version && compareVersions(box.version, majority) < 0) issues.push("outdated_firmware");
+    if (ruleCount === 0) issues.push("no_rules");
+
+    return {
+      rank: 0,
+      gid: box.gid,
+      name: box.name || box.gid,
+      group: box.group || null,
+      online: !!box.online,
+      lastSeen: box.lastSeen ?? null,
+      version: box.version || null,
+      alarms_24h: alarms24h,
+      alarms_daily_average: alarmPage ? Math.round(average * 10) / 10 : null,
+      rules: ruleCount,
+      issues,
+      score: issues.reduce((sum, issue) => sum + ISSUE_WEIGHTS[issue], 0),
+    };
+  });
+
+  assessed
+    .sort((a, b) => b.score - a.score || (b.alarms_24h || 0) - (a.alarms_24h || 0) || a.name.localeCompare(b.name))
+    .forEach((box, index) => { box.rank = index + 1; });
+
+  return {
+    data: {
+      summary: {
+        boxes: boxes.length,
+        online_boxes: stats?.onlineBoxes ?? null,
+        offline_boxes: stats?.offlineBoxes ?? null,
+        alarms: stats?.alarms ?? null,
+        rules: stats?.rules ?? null,
+        majority_version: majority,
+        flagged_boxes: assessed.filter((box) => box.issues.length > 0).length,
+      },
+      boxes: assessed,
+    },
+    errors,
+    truncated: !!alarmPage?.truncated,
+  };
+}
@@ -0,0 +1,1323 @@
+import { Alarm, Box, Device, Flow, Rule, StatisticsEntry, TargetList, TrendPoint } from "./models.js";
+
+// Helper function to format bytes
+export function formatBytes(bytes: number | undefined): string {
+  if (!bytes || bytes === 0) return '0B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + sizes[i];
+}
+
+// XML utility functions
+export function escapeXML(str: string): string {
+  if (typeof str !== 'string') return String(str);
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function jsonToXML(obj: any, indent: number = 2): string {
+  const spaces = ' '.repeat(indent);
+  
+  if (obj === null || obj === undefined) {
+    return `${spaces}<value>null</value>`;
+  }
+  
+  if (typeof obj === 'string') {
+    return `${spaces}<value>${escapeXML(obj)}</value>`;
+  }
+  
+  if (typeof obj === 'number' || typeof obj === 'boolean') {
+    return `${spaces}<value>${obj}</value>`;
+  }
+  
+  if (Array.isArray(obj)) {
+    if (obj.length === 0) {
+      return `${spaces}<array></array>`;
+    }
+    
+    const items = obj.map((item, index) => {
+      const itemXML = jsonToXML(item, indent + 2);
+      return `${spaces}  <item index="${index}">\n${itemXML}\n${spaces}  </item>`;
+    }).join('\n');
+    
+    return `${spaces}<array>\n${items}\n${spaces}</array>`;
+  }
+  
+  if (typeof obj === 'object') {
+    const entries = Object.entries(obj);
+    if (entries.length === 0) {
+      return `${spaces}<object></object>`;
+    }
+    
+    const properties = entries.map(([key, value]) => {
+      const valueXML = jsonToXML(value, indent + 2);
+      return `${spaces}  <${escapeXML(key)}>\n${valueXML}\n${spaces}  </${escapeXML(key)}>`;
+    }).join('\n');
+    
+    return `${spaces}<object>\n${properties}\n${spaces}</object>`;
+  }
+  
+  return `${spaces}<value>${escapeXML(String(obj))}</value>`;
+}
+
+export function formatAsXML(data: any, responseType: string, metadata?: Record<string, any>): string {
+  const timestamp = new Date().toISOString();
+  const metadataXML = metadata ? Object.entries(metadata).map(([key, value]) => 
+    `    <${escapeXML(key)}>${escapeXML(String(value))}</${escapeXML(key)}>`
+  ).join('\n') : '';
+  
+  const dataXML = jsonToXML(data, 2);
+  
+  return `<firewalla_response>
+  <metadata>
+    <response_type>${escapeXML(responseType)}</response_type>
+    <timestamp>${timestamp}</timestamp>
+${metadataXML}
+  </metadata>
+  <data>
+${dataXML}
+  </data>
+</firewalla_response>`;
+}
+
+/** How tool responses are rendered; `xml` is the full document with presentation and data */
+export type OutputFormat = "xml" | "json" | "markdown" | "compact";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["xml", "json", "markdown", "compact"];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "xml";
+
+// Fields that identify an item, in display order; compact and markdown output keep only these
+const KEY_FIELDS = [
+  'id', 'gid', 'aid', 'name', 'ts', 'type', 'alarmType', 'status', 'action', 'direction',
+  'online', 'ip', 'mac', 'domain', 'model', 'version', 'message', 'count', 'value',
+];
+const MAX_COMPACT_ITEMS = 50;
+const MAX_VALUE_LENGTH = 80;
+
+function listItems(data: any): any[] | null {
+  if (Array.isArray(data)) return data;
+  if (data && Array.isArray(data.results)) return data.results;
+  return null;
+}
+
+function shortValue(value: unknown): string {
+  const text = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+// The identifying fields of an item, falling back to its first few scalar fields
+function keyFields(item: any): [string, unknown][] {
+  if (item === null || typeof item !== 'object') return [['value', item]];
+  const scalar = (value: unknown) => value !== null && value !== undefined && typeof value !== 'object';
+  const known = KEY_FIELDS.filter((field) => scalar(item[field])).map((field): [string, unknown] => [field, item[field]]);
+  return known.length > 0 ? known : Object.entries(item).filter(([, value]) => scalar(value)).slice(0, 5);
+}
+
+function metadataLine(metadata: Record<string, any> = {}): string {
+  return Object.entries(metadata)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${shortValue(value)}`)
+    .join(' ');
+}
+
+export function formatAsJSON(data: any, responseType: string, metadata?: Record<string, any>, summary?: string): string {
+  return JSON.stringify({ response_type: responseType, metadata: metadata || {}, ...(summary ? { summary } : {}), data });
+}
+
+/** One line per item with its identifying fields; the cheapest format for the context window */
+export function formatAsCompact(data: any, responseType: string, metadata?: Record<string, any>, summary?: string): string {
+  const items = listItems(data);
+  const header = `${responseType}${items ? ` (${items.length} items)` : ''}: ${summary || metadataLine(metadata)}`.trim();
+  const lines = [summary && metadataLine(metadata) ? `${header}\n${metadataLine(metadata)}` : header];
+
+  const render = (item: any) => `- ${keyFields(item).map(([key, value]) => `${key}=${shortValue(value)}`).join(' ')}`;
+  if (items) {
+    items.slice(0, MAX_COMPACT_ITEMS).forEach((item) => lines.push(render(item)));
+    if (items.length > MAX_COMPACT_ITEMS) lines.push(`…and ${items.length - MAX_COMPACT_ITEMS} more`);
+  } else if (data !== null && typeof data === 'object') {
+    Object.entries(data).forEach(([key, value]) => {
+      const nested = listItems(value);
+      lines.push(nested ? `- ${key}: ${nested.length} items` : `- ${key}=${shortValue(value)}`);
+    });
+  } else if (data !== undefined) {
+    lines.push(`- ${shortValue(data)}`);
+  }
+  return lines.join('\n');
+}
+
+/** A generic markdown rendering for responses without a dedicated presentation */
+export function formatAsMarkdown(data: any, responseType: string, metadata?: Record<string, any>): string {
+  let content = `## ${responseType}\n\n`;
+  Object.entries(metadata || {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .forEach(([key, value]) => {
+      content += `- **${key}**: ${shortValue(value)}\n`;
+    });
+
+  const items = listItems(data);
+  if (items && items.length > 0) {
+    const columns = [...new Set(items.slice(0, MAX_COMPACT_ITEMS).flatMap((item) => keyFields(item).map(([key]) => key)))];
+    content += `\n| ${columns.join(' | ')} |\n|${columns.map(() => '---').join('|')}|\n`;
+    items.slice(0, MAX_COMPACT_ITEMS).forEach((item) => {
+      content += `| ${columns.map((column) => (item?.[column] ?? '') === '' ? '' : shortValue(item[column]).replace(/\|/g, '\\|')).join(' | ')} |\n`;
+    });
+    if (items.length > MAX_COMPACT_ITEMS) content += `\n_…and ${items.length - MAX_COMPACT_ITEMS} more_\n`;
+  } else if (items) {
+    content += `\n_No results._\n`;
+  } else if (data !== null && typeof data === 'object') {
+    content += '\n';
+    Object.entries(data).forEach(([key, value]) => {
+      content += `- **${key}**: ${shortValue(value)}\n`;
+    });
+  } else {
+    content += `\n${shortValue(data)}\n`;
+  }
+  return content;
+}
+
+/** Render a response that has no dedicated presentation in the requested format */
+export function formatResponse(data: any, responseType: string, metadata?: Record<string, any>, format: OutputFormat = DEFAULT_OUTPUT_FORMAT): string {
+  switch (format) {
+    case 'json':
+      return formatAsJSON(data, responseType, metadata);
+    case 'markdown':
+      return formatAsMarkdown(data, responseType, metadata);
+    case 'compact':
+      return formatAsCompact(data, responseType, metadata);
+    default:
+      return formatAsXML(data, responseType, metadata);
+  }
+}
+
+// Generate a descriptive name based on rule properties when the API omits one
+export function withRuleName<T extends Rule>(rule: T): T {
+  if (!rule.name) {
+    const action = rule.action || 'unknown';
+    const direction = rule.direction || '';
+    const target = rule.target?.value || 'any';
+    const protocol = rule.protocol || 'any';
+    rule.name = `${action} ${direction} ${protocol} ${target}`.trim();
+  }
+  return rule;
+}
+
+// Enhanced formatting with presentation layer
+export class FirewallaResponseFormatter {
+  private static formatDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      timeZoneName: 'short'
+    });
+  }
+
+  private static formatBytes(bytes: number | undefined): string {
+    if (!bytes || bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+
+  private static getSeverityEmoji(severity: string): string {
+    switch (severity.toUpperCase()) {
+      case 'HIGH': return '🔴';
+      case 'MEDIUM': return '🟡';
+      case 'LOW': return '🟢';
+      default: return '⚪';
+    }
+  }
+
+  private static getDeviceTypeEmoji(type: string): string {
+    switch (type) {
+      case 'desktop': return '💻';
+      case 'phone': return '📱';
+      case 'tablet': return '📱';
+      case 'tv': return '📺';
+      case 'printer': return '🖨️';
+      case 'camera': return '📷';
+      case 'router': return '🔧';
+      case 'ap': return '📡';
+      case 'switch': return '🔌';
+      case 'nas&server': return '🖥️';
+      case 'security': return '🔒';
+      case 'automation': return '🏠';
+      case 'smart speaker': return '🔊';
+      case 'appliance': return '🔌';
+      default: return '📟';
+    }
+  }
+
+  static formatStatistics(data: any, metadata: Record<string, any>): string {
+    const results = data.results || data || [];
+    const timestamp = new Date().toLocaleString();
+    const statsType = metadata.stats_type || 'statistics';
+    
+    let content = `# Firewalla Analytics Dashboard\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    // Overview section
+    content += `## 📊 Statistics Report: ${statsType}\n\n`;
+    
+    if (Array.isArray(results) && results.length > 0) {
+      switch (statsType) {
+        case 'topBoxesByBlockedFlows':
+          content += `### 🚫 Top Boxes by Blocked Flows\n\n`;
+          results.forEach((item: StatisticsEntry, index: number) => {
+            content += `${index + 1}. 📦 **${item.name || item.boxName || 'Unknown Box'}** - ${item.blockedFlows || item.count || 0} blocked flows\n`;
+            if (item.topBlockedDomain) {
+              content += `   └─ Top blocked: ${item.topBlockedDomain}\n`;
+            }
+          });
+          break;
+          
+        case 'topBoxesBySecurityAlarms':
+          content += `### 🚨 Top Boxes by Security Alarms\n\n`;
+          results.forEach((item: StatisticsEntry, index: number) => {
+            content += `${index + 1}. 📦 **${item.name || item.boxName || 'Unknown Box'}** - ${item.alarmCount || item.count || 0} alarms\n`;
+            if (item.topAlarmType) {
+              content += `   └─ Most common: ${item.topAlarmType}\n`;
+            }
+          });
+          break;
+          
+        case 'topRegionsByBlockedFlows':
+          content += `### 🌍 Top Regions by Blocked Flows\n\n`;
+          results.forEach((item: StatisticsEntry, index: number) => {
+            content += `${index + 1}. 🌍 **${item.region || item.country || 'Unknown'}** - ${item.blockedFlows || item.count || 0} blocks\n`;
+            if (item.topCategory) {
+              content += `   └─ Top category: ${item.topCategory}\n`;
+            }
+          });
+          break;
+          
+        default:
+          // Generic formatting for unknown types
+          content += `### 📈 Results\n\n`;
+          results.forEach((item: StatisticsEntry, index: number) => {
+            content += `${index + 1}. ${JSON.stringify(item, null, 2)}\n`;
+          });
+      }
+    } else {
+      content += `### ℹ️ No data available\n`;
+      content += `No statistics data found for the requested type.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatSimpleStatistics(data: any, metadata: Record<string, any>): string {
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Firewalla System Overview\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 📊 Summary Statistics\n\n`;
+    content += `- **📦 Online Boxes**: ${data.onlineBoxes || 0}\n`;
+    content += `- **📦 Offline Boxes**: ${data.offlineBoxes || 0}\n`;
+    content += `- **🚨 Active Alarms**: ${data.alarms || 0}\n`;
+    content += `- **🛡️ Total Rules**: ${data.rules || 0}\n`;
+    
+    if (metadata.group) {
+      content += `\n*Filtered by group: ${metadata.group}*\n`;
+    }
+    
+    return content;
+  }
+
+  static formatBox(data: any, metadata: Record<string, any>): string {
+    const box = data.box || {};
+    const timestamp = new Date().toLocaleString();
+    const count = (value: number | undefined) => value === undefined ? 'Unavailable' : String(value);
+    
+    let content = `# 📦 ${box.name || box.gid}\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 🖥️ Box Details\n`;
+    content += `- **Status**: ${box.online ? '🟢 Online' : '🔴 Offline'}\n`;
+    content += `- **GID**: \`${box.gid}\`\n`;
+    content += `- **Model**: ${box.model || 'Unknown'}\n`;
+    content += `- **Mode**: ${box.mode || 'Unknown'}\n`;
+    content += `- **Firmware**: ${box.version || 'Unknown'}\n`;
+    content += `- **Group**: ${box.group || 'None'}\n`;
+    content += `- **Last Seen**: ${box.lastSeen ? this.formatDate(box.lastSeen) : 'N/A'}\n\n`;
+    
+    content += `## 📊 Activity\n`;
+    content += `- **💻 Devices**: ${count(data.devices?.total)}`;
+    content += data.devices ? ` (${data.devices.online} online, ${data.devices.offline} offline)\n` : `\n`;
+    content += `- **🚨 Open Alarms**: ${count(data.alarms?.open)}${data.alarms?.truncated ? '+' : ''}\n`;
+    content += `- **🛡️ Rules**: ${count(data.rules?.total)}`;
+    content += data.rules ? ` (${data.rules.active} active, ${data.rules.paused} paused)\n` : `\n`;
+    
+    const alarmTypes = Object.entries(data.alarms?.by_type || {}) as [string, number][];
+    if (alarmTypes.length > 0) {
+      content += `\n## 🚨 Open Alarms by Type\n`;
+      alarmTypes
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([type, total]) => {
+          content += `- **${type}**: ${total}\n`;
+        });
+    }
+    
+    const failed = ['devices', 'alarms', 'rules'].filter((part) => metadata[`${part}_error`]);
+    if (failed.length > 0) {
+      content += `\n## ⚠️ Incomplete Data\n`;
+      failed.forEach((part) => {
+        content += `- **${part}**: ${metadata[`${part}_error`]}\n`;
+      });
+    }
+    
+    return content;
+  }
+
+  static formatFleetHealth(data: any, metadata: Record<string, any>): string {
+    const summary = data.summary || {};
+    const boxes = data.boxes || [];
+    const flagged = boxes.filter((box: any) => (box.issues || []).length > 0);
+    const timestamp = new Date().toLocaleString();
+    const issueLabels: Record<string, string> = {
+      offline: '🔴 Offline',
+      alarm_spike: '🚨 Alarm spike',
+      outdated_firmware: '⬆️ Outdated firmware',
+      no_rules: '🛡️ No rules',
+    };
+    
+    let content = `# 🩺 Fleet Health Report\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 📊 Fleet Overview\n`;
+    content += `- **📦 Boxes Checked**: ${summary.boxes || 0}${metadata.group ? ` (group ${metadata.group})` : ''}\n`;
+    content += `- **Online**: ${summary.online_boxes ?? 'N/A'} | **Offline**: ${summary.offline_boxes ?? 'N/A'}\n`;
+    content += `- **🚨 Active Alarms**: ${summary.alarms ?? 'N/A'}\n`;
+    content += `- **🛡️ Total Rules**: ${summary.rules ?? 'N/A'}\n`;
+    content += `- **Majority Firmware**: ${summary.majority_version || 'Unknown'}\n`;
+    content += `- **⚠️ Boxes Needing Attention**: ${flagged.length}\n\n`;
+    
+    if (flagged.length > 0) {
+      content += `## 🏥 Boxes Needing Attention\n\n`;
+      content += `| Rank | Box | Group | Issues | Firmware | Alarms (24h / daily avg) | Rules | Last Seen |\n`;
+      content += `|------|-----|-------|--------|----------|--------------------------|-------|-----------|\n`;
+      
+      flagged.forEach((box: any) => {
+        const issues = box.issues.map((issue: string) => issueLabels[issue] || issue).join(', ');
+        const alarms = box.alarms_24h === null ? 'N/A' : `${box.alarms_24h} / ${box.alarms_daily_average}`;
+        const lastSeen = box.lastSeen ? this.formatDate(box.lastSeen) : 'N/A';
+        
+        content += `| ${box.rank} | **${box.name}** | ${box.group || 'None'} | ${issues} | ${box.version || 'Unknown'} | ${alarms} | ${box.rules ?? 'N/A'} | ${lastSeen} |\n`;
+      });
+    } else if (boxes.length > 0) {
+      content += `### ✅ All boxes healthy\n`;
+      content += `No box is offline, behind on firmware, spiking in alarms or without rules.\n`;
+    } else {
+      content += `### ℹ️ No boxes found\n`;
+    }
+    
+    const failed = ['statistics', 'alarms', 'rules'].filter((part) => metadata[`${part}_error`]);
+    if (failed.length > 0 || metadata.alarms_truncated) {
+      content += `\n## ⚠️ Incomplete Data\n`;
+      failed.forEach((part) => {
+        content += `- **${part}**: ${metadata[`${part}_error`]}\n`;
+      });
+      if (metadata.alarms_truncated) {
+        content += `- **alarms**: More alarms than could be fetched; counts for the oldest days may be low\n`;
+      }
+    }
+    
+    return content;
+  }
+
+  static formatTargetLists(data: any, metadata: Record<string, any>): string {
+    const lists = data.results || data || [];
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Firewalla Target Lists\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 📋 Overview\n`;
+    content += `- **Total Lists**: ${lists.length}\n`;
+    
+    if (lists.length > 0) {
+      // Group by category
+      const categoryCount: Record<string, number> = {};
+      let totalTargets = 0;
+      
+      lists.forEach((list: TargetList) => {
+        const category = list.category || 'Uncategorized';
+        categoryCount[category] = (categoryCount[category] || 0) + 1;
+        totalTargets += (list.targets || []).length;
+      });
+      
+      content += `- **Total Targets**: ${totalTargets}\n`;
+      content += `- **Categories**: `;
+      content += Object.entries(categoryCount)
+        .map(([cat, count]) => `${cat} (${count})`)
+        .join(', ');
+      content += `\n\n`;
+      
+      // List details
+      content += `## 📝 Target Lists\n\n`;
+      content += `| Name | Category | Owner | Targets | Notes |\n`;
+      content += `|------|----------|-------|---------|-------|\n`;
+      
+      lists.forEach((list: TargetList) => {
+        const name = list.name || 'Unnamed';
+        const category = list.category || 'Uncategorized';
+        const owner = list.owner || 'System';
+        const targetCount = (list.targets || []).length;
+        const notes = list.notes ? list.notes.substring(0, 50) + (list.notes.length > 50 ? '...' : '') : '-';
+        
+        content += `| **${name}** | ${category} | ${owner} | ${targetCount} | ${notes} |\n`;
+      });
+      
+      // Show first few targets for each list
+      content += `\n## 🎯 Target Details\n`;
+      lists.forEach((list: TargetList) => {
+        if (list.targets && list.targets.length > 0) {
+          content += `\n### ${list.name}\n`;
+          const displayTargets = list.targets.slice(0, 5);
+          displayTargets.forEach((target: string) => {
+            content += `- \`${target}\`\n`;
+          });
+          if (list.targets.length > 5) {
+            content += `- _...and ${list.targets.length - 5} more_\n`;
+          }
+        }
+      });
+    } else {
+      content += `\n### ℹ️ No target lists found\n`;
+      content += `No target lists have been configured.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatGetTrends(data: any, metadata: Record<string, any>): string {
+    const trends = data.results || data || [];
+    const timestamp = new Date().toLocaleString();
+    const trendType = metadata.trends_type || 'trends';
+    
+    let content = `# Firewalla ${trendType.charAt(0).toUpperCase() + trendType.slice(1)} Trends\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 📈 Trend Analysis\n`;
+    content += `- **Data Points**: ${trends.length}\n`;
+    content += `- **Type**: ${trendType}\n`;
+    
+    if (metadata.group) {
+      content += `- **Group Filter**: ${metadata.group}\n`;
+    }
+    
+    if (trends.length > 0) {
+      // Calculate time range
+      const timestamps = trends.map((t: TrendPoint) => t.timestamp || t.ts || 0).filter((ts: number) => ts > 0);
+      if (timestamps.length > 0) {
+        const minTime = Math.min(...timestamps);
+        const maxTime = Math.max(...timestamps);
+        content += `- **Time Range**: ${this.formatDate(minTime)} - ${this.formatDate(maxTime)}\n`;
+      }
+      
+      content += `\n## 📊 Trend Data\n\n`;
+      
+      // Format based on trend type
+      if (trendType === 'flows') {
+        content += `| Time | Total Flows | Blocked | Allowed | Upload | Download |\n`;
+        content += `|------|-------------|---------|---------|--------|----------|\n`;
+        
+        trends.forEach((point: TrendPoint) => {
+          const time = point.timestamp ? this.formatDate(point.timestamp) : 'N/A';
+          const total = point.total || 0;
+          const blocked = point.blocked || 0;
+          const allowed = point.allowed || 0;
+          const upload = this.formatBytes(point.upload || 0);
+          const download = this.formatBytes(point.download || 0);
+          
+          content += `| ${time} | ${total} | ${blocked} | ${allowed} | ${upload} | ${download} |\n`;
+        });
+      } else if (trendType === 'alarms') {
+        content += `| Time | Total Alarms | High | Medium | Low |\n`;
+        content += `|------|--------------|------|--------|-----|\n`;
+        
+        trends.forEach((point: TrendPoint) => {
+          const time = point.timestamp ? this.formatDate(point.timestamp) : 'N/A';
+          const total = point.total || 0;
+          const high = point.high || 0;
+          const medium = point.medium || 0;
+          const low = point.low || 0;
+          
+          content += `| ${time} | ${total} | ${high} | ${medium} | ${low} |\n`;
+        });
+      } else if (trendType === 'rules') {
+        content += `| Time | Total Rules | Active | Paused | Block | Allow |\n`;
+        content += `|------|-------------|--------|---------|--------|--------|\n`;
+        
+        trends.forEach((point: TrendPoint) => {
+          const time = point.timestamp ? this.formatDate(point.timestamp) : 'N/A';
+          const total = point.total || 0;
+          const active = point.active || 0;
+          const paused = point.paused || 0;
+          const block = point.block || 0;
+          const allow = point.allow || 0;
+          
+          content += `| ${time} | ${total} | ${active} | ${paused} | ${block} | ${allow} |\n`;
+        });
+      }
+      
+      // Add insights if available
+      content += `\n## 🎯 Key Insights\n`;
+      
+      // Calculate trends
+      if (trends.length >= 2) {
+        const firstPoint = trends[0];
+        const lastPoint = trends[trends.length - 1];
+        
+        if (trendType === 'flows' && firstPoint.total && lastPoint.total) {
+          const change = ((lastPoint.total - firstPoint.total) / firstPoint.total * 100).toFixed(1);
+          content += `- Flow volume ${parseFloat(change) > 0 ? 'increased' : 'decreased'} by ${Math.abs(parseFloat(change))}%\n`;
+        } else if (trendType === 'alarms' && firstPoint.total && lastPoint.total) {
+          const change = ((lastPoint.total - firstPoint.total) / firstPoint.total * 100).toFixed(1);
+          content += `- Alarm count ${parseFloat(change) > 0 ? 'increased' : 'decreased'} by ${Math.abs(parseFloat(change))}%\n`;
+        } else if (trendType === 'rules' && firstPoint.total && lastPoint.total) {
+          const change = lastPoint.total - firstPoint.total;
+          content += `- ${Math.abs(change)} rules ${change > 0 ? 'added' : 'removed'} during this period\n`;
+        }
+      }
+    } else {
+      content += `\n### ℹ️ No trend data available\n`;
+      content += `No ${trendType} trend data found for the specified parameters.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatSearchGlobal(data: any, metadata: Record<string, any>): string {
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Firewalla Global Search Results\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    content += `## 🔍 Search Summary\n`;
+    content += `- **Query**: "${metadata.query || 'All'}"\n`;
+    
+    let totalResults = 0;
+    const resultCounts: Record<string, number> = {};
+    
+    // Count results by type
+    Object.entries(data).forEach(([type, results]: [string, any]) => {
+      if (Array.isArray(results)) {
+        resultCounts[type] = results.length;
+        totalResults += results.length;
+      }
+    });
+    
+    content += `- **Total Results**: ${totalResults}\n`;
+    content += `- **Result Types**: `;
+    content += Object.entries(resultCounts)
+      .filter(([_, count]) => count > 0)
+      .map(([type, count]) => `${type} (${count})`)
+      .join(', ');
+    content += `\n\n`;
+    
+    // A failed type must not read as "no results"
+    const searchTypes: string[] = Array.isArray(metadata.search_types) ? metadata.search_types : [];
+    const failedTypes = searchTypes.filter((type) => metadata[`${type}_status`] && metadata[`${type}_status`] !== 'ok');
+    if (searchTypes.some((type) => metadata[`${type}_status`])) {
+      content += `## 📋 Status by Type\n\n`;
+      content += `| Type | Status | Results | Next Cursor |\n`;
+      content += `|------|--------|---------|-------------|\n`;
+      searchTypes.forEach((type) => {
+        const status = metadata[`${type}_status`];
+        const label = status === 'ok' ? '✅ ok' : status === 'timeout' ? '⏱️ timeout' : '❌ error';
+        const detail = metadata[`${type}_error`] ? `: ${metadata[`${type}_error`]}` : '';
+        const cursor = metadata[`${type}_next_cursor`] ? `\`${metadata[`${type}_next_cursor`]}\`` : '-';
+        content += `| ${type} | ${label}${detail} | ${resultCounts[type] ?? 0} | ${cursor} |\n`;
+      });
+      content += `\n`;
+    }
+    
+    // Show results by type
+    if (data.devices && data.devices.length > 0) {
+      content += `## 💻 Devices (${data.devices.length})\n\n`;
+      content += `| Name | IP | MAC | Type | Status |\n`;
+      content += `|------|-----|-----|------|--------|\n`;
+      
+      data.devices.slice(0, 10).forEach((device: Device) => {
+        const name = device.name || 'Unknown';
+        const ip = device.ip || device.ipAddress || 'N/A';
+        const mac = device.mac || 'N/A';
+        const type = device.type || device.deviceType || 'unknown';
+        const status = device.online ? '🟢 Online' : '🔴 Offline';
+        
+        content += `| **${name}** | \`${ip}\` | \`${mac}\` | ${type} | ${status} |\n`;
+      });
+      
+      if (data.devices.length > 10) {
+        content += `\n_...and ${data.devices.length - 10} more devices_\n`;
+      }
+      content += `\n`;
+    }
+    
+    if (data.alarms && data.alarms.length > 0) {
+      content += `## 🚨 Alarms (${data.alarms.length})\n\n`;
+      content += `| Time | Type | Device | Severity |\n`;
+      content += `|------|------|--------|----------|\n`;
+      
+      data.alarms.slice(0, 10).forEach((alarm: Alarm) => {
+        const time = alarm.ts ? this.formatDate(alarm.ts) : 'N/A';
+        const type = alarm.alarmType || `Type ${alarm.type}`;
+        const device = alarm.device?.name || 'Unknown';
+        const severity = alarm.severity || 'MEDIUM';
+        
+        content += `| ${time} | ${type} | ${device} | ${this.getSeverityEmoji(severity)} ${severity} |\n`;
+      });
+      
+      if (data.alarms.length > 10) {
+        content += `\n_...and ${data.alarms.length - 10} more alarms_\n`;
+      }
+      content += `\n`;
+    }
+    
+    if (data.flows && data.flows.length > 0) {
+      content += `## 🌐 Flows (${data.flows.length})\n\n`;
+      content += `| Time | Device | Direction | Domain/IP | Transfer |\n`;
+      content += `|------|--------|-----------|-----------|----------|\n`;
+      
+      data.flows.slice(0, 10).forEach((flow: Flow) => {
+        const time = flow.ts ? new Date(flow.ts * 1000).toLocaleTimeString() : 'N/A';
+        const device = flow.device?.name || 'Unknown';
+        const direction = flow.direction === 'in' ? '⬇️' : flow.direction === 'out' ? '⬆️' : '↔️';
+        const destination = flow.domain || flow.ip || 'Unknown';
+        const transfer = this.formatBytes((flow.upload || 0) + (flow.download || 0));
+        
+        content += `| ${time} | ${device} | ${direction} | ${destination} | ${transfer} |\n`;
+      });
+      
+      if (data.flows.length > 10) {
+        content += `\n_...and ${data.flows.length - 10} more flows_\n`;
+      }
+      content += `\n`;
+    }
+    
+    if (data.boxes && data.boxes.length > 0) {
+      content += `## 📦 Boxes (${data.boxes.length})\n\n`;
+      content += `| Name | Model | Version | Status |\n`;
+      content += `|------|-------|---------|--------|\n`;
+      
+      data.boxes.forEach((box: Box) => {
+        const name = box.name || 'Unknown';
+        const model = box.model || 'N/A';
+        const version = box.version || 'N/A';
+        const status = box.online ? '🟢 Online' : '🔴 Offline';
+        
+        content += `| **${name}** | ${model} | ${version} | ${status} |\n`;
+      });
+      content += `\n`;
+    }
+    
+    if (failedTypes.length > 0) {
+      content += `### ⚠️ Incomplete results\n`;
+      content += `${failedTypes.join(', ')} could not be searched, so matches of ${failedTypes.length === 1 ? 'that type' : 'those types'} may be missing.\n`;
+    } else if (totalResults === 0) {
+      content += `### ℹ️ No results found\n`;
+      content += `No items match your search query.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatListFlows(data: any, metadata: Record<string, any>): string {
+    const flows = data.results || [];
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Network Traffic Flows\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    // Overview section
+    content += `## 📊 Traffic Summary\n`;
+    content += `- **Total Flows**: ${flows.length}\n`;
+    
+    if (flows.length > 0) {
+      // Calculate time range
+      const timestamps = flows.map((f: Flow) => f.ts || 0).filter((ts: number) => ts > 0);
+      if (timestamps.length > 0) {
+        const minTime = Math.min(...timestamps);
+        const maxTime = Math.max(...timestamps);
+        content += `- **Time Period**: ${this.formatDate(minTime)} - ${this.formatDate(maxTime)}\n`;
+      }
+      
+      // Protocol breakdown
+      const protocolCount: Record<string, number> = {};
+      const directionCount = { inbound: 0, outbound: 0, bidirectional: 0 };
+      let totalUpload = 0;
+      let totalDownload = 0;
+      
+      flows.forEach((flow: Flow) => {
+        const protocol = flow.protocol || 'unknown';
+        protocolCount[protocol] = (protocolCount[protocol] || 0) + 1;
+        
+        const direction = flow.direction || 'unknown';
+        if (direction === 'in') directionCount.inbound++;
+        else if (direction === 'out') directionCount.outbound++;
+        else if (direction === 'bi') directionCount.bidirectional++;
+        
+        totalUpload += flow.upload || 0;
+        totalDownload += flow.download || 0;
+      });
+      
+      // Top protocols
+      const sortedProtocols = Object.entries(protocolCount)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3);
+      
+      if (sortedProtocols.length > 0) {
+        content += `- **Top Protocols**: `;
+        const totalFlows = flows.length;
+        content += sortedProtocols
+          .map(([proto, count]) => `${proto.toUpperCase()} (${Math.round(count / totalFlows * 100)}%)`)
+          .join(', ');
+        content += `\n`;
+      }
+      
+      // Direction breakdown
+      const totalDirectional = directionCount.inbound + directionCount.outbound + directionCount.bidirectional;
+      if (totalDirectional > 0) {
+        content += `- **Direction**: `;
+        content += `Inbound (${Math.round(directionCount.inbound / totalDirectional * 100)}%), `;
+        content += `Outbound (${Math.round(directionCount.outbound / totalDirectional * 100)}%), `;
+        content += `Bidirectional (${Math.round(directionCount.bidirectional / totalDirectional * 100)}%)\n`;
+      }
+      
+      content += `- **Total Transfer**: Upload ${this.formatBytes(totalUpload)}, Download ${this.formatBytes(totalDownload)}\n\n`;
+      
+      // Top destinations by volume
+      const destinationVolume: Record<string, { domain: string, country: string, volume: number, count: number }> = {};
+      
+      flows.forEach((flow: Flow) => {
+        const key = flow.domain || flow.ip || 'unknown';
+        if (!destinationVolume[key]) {
+          destinationVolume[key] = {
+            domain: flow.domain || flow.ip || 'unknown',
+            country: flow.country || 'Unknown',
+            volume: 0,
+            count: 0
+          };
+        }
+        destinationVolume[key].volume += (flow.upload || 0) + (flow.download || 0);
+        destinationVolume[key].count++;
+      });
+      
+      const topDestinations = Object.values(destinationVolume)
+        .sort((a, b) => b.volume - a.volume)
+        .slice(0, 10);
+      
+      if (topDestinations.length > 0) {
+        content += `## 🌍 Top Destinations by Volume\n\n`;
+        content += `| Domain/IP | Country | Transfer Volume | Flow Count |\n`;
+        content += `|-----------|---------|-----------------|------------|\n`;
+        
+        topDestinations.forEach(dest => {
+          const countryFlag = dest.country && dest.country !== 'Unknown' ? `🌐 ${dest.country}` : '🌐 Unknown';
+          content += `| **${dest.domain}** | ${countryFlag} | ${this.formatBytes(dest.volume)} | ${dest.count} |\n`;
+        });
+        content += `\n`;
+      }
+      
+      // Top source devices
+      const deviceVolume: Record<string, { name: string, upload: number, download: number, count: number }> = {};
+      
+      flows.forEach((flow: Flow) => {
+        const deviceId = flow.device?.id || flow.deviceMAC || 'unknown';
+        const deviceName = flow.device?.name || flow.deviceName || deviceId;
+        
+        if (!deviceVolume[deviceId]) {
+          deviceVolume[deviceId] = {
+            name: deviceName,
+            upload: 0,
+            download: 0,
+            count: 0
+          };
+        }
+        deviceVolume[deviceId].upload += flow.upload || 0;
+        deviceVolume[deviceId].download += flow.download || 0;
+        deviceVolume[deviceId].count++;
+      });
+      
+      const topDevices = Object.values(deviceVolume)
+        .sort((a, b) => (b.upload + b.download) - (a.upload + a.download))
+        .slice(0, 10);
+      
+      if (topDevices.length > 0) {
+        content += `## 📱 Top Devices by Traffic\n\n`;
+        content += `| Device | Upload | Download | Total Flows |\n`;
+        content += `|--------|--------|----------|-------------|\n`;
+        
+        topDevices.forEach(device => {
+          content += `| **${device.name}** | ${this.formatBytes(device.upload)} | ${this.formatBytes(device.download)} | ${device.count} |\n`;
+        });
+        content += `\n`;
+      }
+      
+      // Recent flows sample
+      const recentFlows = flows.slice(0, 10);
+      if (recentFlows.length > 0) {
+        content += `## 📈 Recent Traffic Flows\n\n`;
+        content += `| Time | Device | Direction | Domain/IP | Protocol | Transfer |\n`;
+        content += `|------|--------|-----------|-----------|----------|----------|\n`;
+        
+        recentFlows.forEach((flow: Flow) => {
+          const time = flow.ts ? new Date(flow.ts * 1000).toLocaleTimeString() : 'N/A';
+          const device = flow.device?.name || flow.deviceName || 'Unknown';
+          const direction = flow.direction === 'in' ? '⬇️ In' : flow.direction === 'out' ? '⬆️ Out' : '↔️ Bi';
+          const destination = flow.domain || flow.ip || 'Unknown';
+          const protocol = (flow.protocol || 'unknown').toUpperCase();
+          const transfer = this.formatBytes((flow.upload || 0) + (flow.download || 0));
+          
+          content += `| ${time} | ${device} | ${direction} | ${destination} | ${protocol} | ${transfer} |\n`;
+        });
+      }
+    } else {
+      content += `\n### ℹ️ No flows found\n`;
+      content += `No network flows match your search criteria.\n`;
+    }
+    
+    if (data.next_cursor) {
+      content += `\n## 📄 Additional Results\n`;
+      content += `More results are available. Use cursor: \`${data.next_cursor}\` to fetch the next page.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatListRules(data: any, metadata: Record<string, any>): string {
+    const rules = data.results || data || [];
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Firewall Rules Configuration\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    // Overview section
+    content += `## 📊 Rules Overview\n`;
+    content += `- **Total Rules**: ${rules.length}\n`;
+    
+    if (rules.length > 0) {
+      // Calculate rule statistics
+      const activeCount = rules.filter((r: Rule) => r.status === 'active').length;
+      const pausedCount = rules.length - activeCount;
+      
+      const actionCount: Record<string, number> = {};
+      rules.forEach((rule: Rule) => {
+        const action = rule.action || 'unknown';
+        actionCount[action] = (actionCount[action] || 0) + 1;
+      });
+      
+      content += `- **Active**: ${activeCount} | **Paused**: ${pausedCount}\n`;
+      content += `- **Rule Types**: `;
+      content += Object.entries(actionCount)
+        .map(([action, count]) => `${action.charAt(0).toUpperCase() + action.slice(1)} (${count})`)
+        .join(', ');
+      content += `\n\n`;
+      
+      // Block rules
+      const blockRules = rules.filter((r: Rule) => r.action === 'block');
+      if (blockRules.length > 0) {
+        content += `## 🛡️ Block Rules\n\n`;
+        content += `| Name | Target | Scope | Direction | Status |\n`;
+        content += `|------|--------|-------|-----------|--------|\n`;
+        
+        blockRules.forEach((rule: Rule) => {
+          const name = rule.name || 'Unnamed Rule';
+          const target = rule.target ? `${rule.target.type}: ${rule.target.value}` : 'Any';
+          const scope = rule.scope ? `${rule.scope.type}: ${rule.scope.value}` : 'All devices';
+          const direction = rule.direction || 'both';
+          const status = rule.status === 'active' ? '✅ Active' : '⏸️ Paused';
+          
+          content += `| **${name}** | ${target} | ${scope} | ${direction} | ${status} |\n`;
+        });
+        content += `\n`;
+      }
+      
+      // Allow rules
+      const allowRules = rules.filter((r: Rule) => r.action === 'allow');
+      if (allowRules.length > 0) {
+        content += `## ✅ Allow Rules\n\n`;
+        content += `| Name | Target | Scope | Direction | Status |\n`;
+        content += `|------|--------|-------|-----------|--------|\n`;
+        
+        allowRules.forEach((rule: Rule) => {
+          const name = rule.name || 'Unnamed Rule';
+          const target = rule.target ? `${rule.target.type}: ${rule.target.value}` : 'Any';
+          const scope = rule.scope ? `${rule.scope.type}: ${rule.scope.value}` : 'All devices';
+          const direction = rule.direction || 'both';
+          const status = rule.status === 'active' ? '✅ Active' : '⏸️ Paused';
+          
+          content += `| **${name}** | ${target} | ${scope} | ${direction} | ${status} |\n`;
+        });
+        content += `\n`;
+      }
+      
+      // Time-limited rules
+      const timeLimitRules = rules.filter((r: Rule) => r.action === 'time_limit');
+      if (timeLimitRules.length > 0) {
+        content += `## ⏰ Time-Limited Rules\n\n`;
+        content += `| Name | Target | Schedule | Status |\n`;
+        content += `|------|--------|----------|--------|\n`;
+        
+        timeLimitRules.forEach((rule: Rule) => {
+          const name = rule.name || 'Unnamed Rule';
+          const target = rule.target ? `${rule.target.type}: ${rule.target.value}` : 'Any';
+          const schedule = rule.schedule ? rule.schedule.type : 'No schedule';
+          const status = rule.status === 'active' ? '✅ Active' : '⏸️ Paused';
+          
+          content += `| **${name}** | ${target} | ${schedule} | ${status} |\n`;
+        });
+      }
+    } else {
+      content += `\n### ℹ️ No rules found\n`;
+      content += `No security rules are configured.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatListDevices(data: any, metadata: Record<string, any>): string {
+    const devices = data.results || data || [];
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Network Device Inventory\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    // Overview section
+    content += `## 📊 Device Summary\n`;
+    content += `- **Total Devices**: ${devices.length}\n`;
+    
+    if (devices.length > 0) {
+      // Calculate device statistics
+      const onlineCount = devices.filter((d: Device) => d.online).length;
+      const offlineCount = devices.length - onlineCount;
+      
+      const typeCount: Record<string, number> = {};
+      const networkCount: Record<string, number> = {};
+      
+      devices.forEach((device: Device) => {
+        const type = device.type || device.deviceType || 'unknown';
+        typeCount[type] = (typeCount[type] || 0) + 1;
+        
+        const network = device.network?.name || 'Unknown Network';
+        networkCount[network] = (networkCount[network] || 0) + 1;
+      });
+      
+      content += `- **Online**: ${onlineCount} | **Offline**: ${offlineCount}\n`;
+      
+      // Device types breakdown
+      const sortedTypes = Object.entries(typeCount).sort((a, b) => b[1] - a[1]);
+      content += `- **Device Types**: `;
+      content += sortedTypes.map(([type, count]) => `${type} (${count})`).join(', ');
+      content += `\n\n`;
+      
+      // Network distribution
+      content += `## 🏠 Network Distribution\n`;
+      Object.entries(networkCount)
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([network, count]) => {
+          content += `- **${network}**: ${count} devices\n`;
+        });
+      content += `\n`;
+      
+      // Active devices
+      const activeDevices = devices.filter((d: Device) => d.online);
+      if (activeDevices.length > 0) {
+        content += `## 💻 Active Devices\n\n`;
+        content += `| Name | IP Address | MAC Address | Type | Network | Last Active |\n`;
+        content += `|------|------------|-------------|------|---------|-------------|\n`;
+        
+        activeDevices.forEach((device: Device) => {
+          const name = device.name || 'Unknown';
+          const ip = device.ip || device.ipAddress || 'N/A';
+          const mac = device.mac || 'N/A';
+          const type = device.type || device.deviceType || 'unknown';
+          const typeEmoji = this.getDeviceTypeEmoji(type);
+          const network = device.network?.name || 'Unknown';
+          const lastSeenTime = device.lastActiveTime || device.lastSeen;
+          const lastSeen = lastSeenTime ? this.formatDate(lastSeenTime) : 'Active';
+          
+          content += `| ${typeEmoji} **${name}** | \`${ip}\` | \`${mac}\` | ${type} | ${network} | ${lastSeen} |\n`;
+        });
+        content += `\n`;
+      }
+      
+      // Offline devices
+      const offlineDevices = devices.filter((d: Device) => !d.online);
+      if (offlineDevices.length > 0) {
+        content += `## 📴 Offline Devices\n\n`;
+        content += `| Name | IP Address | MAC Address | Type | Last Seen |\n`;
+        content += `|------|------------|-------------|------|------------|\n`;
+        
+        offlineDevices.forEach((device: Device) => {
+          const name = device.name || 'Unknown';
+          const ip = device.ip || device.ipAddress || 'N/A';
+          const mac = device.mac || 'N/A';
+          const type = device.type || device.deviceType || 'unknown';
+          const typeEmoji = this.getDeviceTypeEmoji(type);
+          const lastSeenTime = device.lastActiveTime || device.lastSeen;
+          const lastSeen = lastSeenTime ? this.formatDate(lastSeenTime) : 'N/A';
+          
+          content += `| ${typeEmoji} **${name}** | \`${ip}\` | \`${mac}\` | ${type} | ${lastSeen} |\n`;
+        });
+      }
+    } else {
+      content += `\n### ℹ️ No devices found\n`;
+      content += `No devices match your search criteria.\n`;
+    }
+    
+    if (data.next_cursor) {
+      content += `\n## 📄 Additional Results\n`;
+      content += `More results are available. Use cursor: \`${data.next_cursor}\` to fetch the next page.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatListAlarms(data: any, metadata: Record<string, any>): string {
+    const alarms = data.results || [];
+    const timestamp = new Date().toLocaleString();
+    
+    let content = `# Firewalla Security Alarms Report\n`;
+    content += `*Generated: ${timestamp}*\n\n`;
+    
+    // Overview section
+    content += `## 📊 Overview\n`;
+    content += `- **Total Alarms**: ${alarms.length}\n`;
+    content += `- **Query**: ${metadata.query || 'All alarms'}\n`;
+    
+    if (alarms.length > 0) {
+      // Calculate severity breakdown
+      const severityCount = { HIGH: 0, MEDIUM: 0, LOW: 0 };
+      const statusCount = { active: 0, acknowledged: 0, resolved: 0 };
+      const typeCount: Record<string, number> = {};
+      
+      alarms.forEach((alarm: Alarm) => {
+        const severity = alarm.severity || (alarm.type <= 2 ? 'HIGH' : alarm.type <= 5 ? 'MEDIUM' : 'LOW');
+        severityCount[severity as keyof typeof severityCount]++;
+        
+        const status = alarm.status || 'active';
+        statusCount[status as keyof typeof statusCount]++;
+        
+        const alarmType = alarm.alarmType || `Type ${alarm.type}`;
+        typeCount[alarmType] = (typeCount[alarmType] || 0) + 1;
+      });
+      
+      content += `- **Severity Breakdown**: High (${severityCount.HIGH}), Medium (${severityCount.MEDIUM}), Low (${severityCount.LOW})\n`;
+      content += `- **Status**: Active (${statusCount.active}), Acknowledged (${statusCount.acknowledged}), Resolved (${statusCount.resolved})\n\n`;
+      
+      // Alarms by type
+      content += `## 🚨 Alarms by Type\n`;
+      Object.entries(typeCount).forEach(([type, count]) => {
+        content += `- **${type}**: ${count} alarms\n`;
+      });
+      content += `\n`;
+      
+      // Detailed alarms
+      content += `## 📋 Detailed Alarms\n\n`;
+      
+      alarms.forEach((alarm: Alarm, index: number) => {
+        const severity = alarm.severity || (alarm.type <= 2 ? 'HIGH' : alarm.type <= 5 ? 'MEDIUM' : 'LOW');
+        const alarmTime = alarm.ts ? this.formatDate(alarm.ts) : 'N/A';
+        const deviceName = alarm.device?.name || 'Unknown Device';
+        const deviceIp = alarm.device?.ip || alarm.device?.ipAddress || 'N/A';
+        const remoteDomain = alarm.remote?.domain || alarm.remote?.ip || 'N/A';
+        const remoteCountry = alarm.remote?.country || 'Unknown';
+        const download = this.formatBytes(alarm.transfer?.download);
+        const upload = this.formatBytes(alarm.transfer?.upload);
+        const total = this.formatBytes(alarm.transfer?.total);
+        const status = alarm.status || 'active';
+        
+        content += `### ${this.getSeverityEmoji(severity)} Alarm #${index + 1} - ${alarm.alarmType || `Type ${alarm.type}`}\n`;
+        content += `- **Time**: ${alarmTime}\n`;
+        content += `- **Severity**: ${severity}\n`;
+        content += `- **Status**: ${status}\n`;
+        content += `- **Device**: ${deviceName} (IP: ${deviceIp})\n`;
+        content += `- **Remote**: ${remoteDomain} (${remoteCountry})\n`;
+        content += `- **Transfer**: ↓ ${download} | ↑ ${upload} | Total: ${total}\n`;
+        content += `\n`;
+      });
+    } else {
+      content += `\n### ℹ️ No alarms found\n`;
+      content += `No security alarms match your search criteria.\n`;
+    }
+    
+    if (data.next_cursor) {
+      content += `\n## 📄 Additional Results\n`;
+      content += `More results are available. Use cursor: \`${data.next_cursor}\` to fetch the next page.\n`;
+    }
+    
+    return content;
+  }
+
+  static formatEnhancedResponse(data: any, responseType: string, metadata?: Record<string, any>, format: OutputFormat = DEFAULT_OUTPUT_FORMAT): string {
+    const enhancedMetadata = metadata || {};
+    let presentationContent = '';
+    let summary = '';
+    let title = '';
+    
+    switch (responseType) {
+      case 'list_alarms':
+      case 'search_alarms':
+        presentationContent = this.formatListAlarms(data, enhancedMetadata);
+        title = enhancedMetadata.query ? 
+          `Firewalla Alarms Report - ${enhancedMetadata.query}` : 
+          'Firewalla Security Alarms Report';
+        summary = `Found ${(data.results || []).length} alarms${enhancedMetadata.query ? ` matching "${enhancedMetadata.query}"` : ''}.`;
+        break;
+        
+      case 'list_devices':
+      case 'search_devices':
+        presentationContent = this.formatListDevices(data, enhancedMetadata);
+        title = enhancedMetadata.query ? 
+          `Network Device Inventory - ${enhancedMetadata.query}` : 
+          'Network Device Inventory';
+        const deviceData = data.results || data || [];
+        const onlineCount = deviceData.filter((d: Device) => d.online).length;
+        summary = `Found ${deviceData.length} devices (${onlineCount} online, ${deviceData.length - onlineCount} offline)${enhancedMetadata.query ? ` matching "${enhancedMetadata.query}"` : ''}.`;
+        break;
+        
+      case 'list_rules':
+        presentationContent = this.formatListRules(data, enhancedMetadata);
+        title = 'Firewall Rules Configuration';
+        const ruleData = data.results || data || [];
+        const activeRules = ruleData.filter((r: Rule) => r.status === 'active').length;
+        summary = `Found ${ruleData.length} rules (${activeRules} active, ${ruleData.length - activeRules} paused).`;
+        break;
+        
+      case 'get_statistics':
+        presentationContent = this.formatStatistics(data, enhancedMetadata);
+        title = `Firewalla Analytics - ${enhancedMetadata.stats_type || 'Statistics'}`;
+        const statsData = data.results || data || [];
+        summary = `Showing top ${statsData.length} results for ${enhancedMetadata.stats_type}.`;
+        break;
+        
+      case 'get_simple_statistics':
+        presentationContent = this.formatSimpleStatistics(data, enhancedMetadata);
+        title = 'Firewalla System Overview';
+        summary = `System has ${data.onlineBoxes || 0} online boxes, ${data.alarms || 0} alarms, and ${data.rules || 0} rules.`;
+        break;
+        
+      case 'get_box': {
+        presentationContent = this.formatBox(data, enhancedMetadata);
+        const box = data.box || {};
+        title = `Firewalla Box - ${box.name || box.gid}`;
+        summary = `${box.name || box.gid} is ${box.online ? 'online' : 'offline'} with ${data.devices?.total ?? 'unknown'} devices, ${data.alarms?.open ?? 'unknown'} open alarms and ${data.rules?.active ?? 'unknown'} active rules.`;
+        break;
+      }
+        
+      case 'fleet_health': {
+        presentationContent = this.formatFleetHealth(data, enhancedMetadata);
+        title = 'Firewalla Fleet Health Report';
+        const fleetSummary = data.summary || {};
+        const worst = (data.boxes || []).find((box: any) => (box.issues || []).length > 0);
+        summary = `${fleetSummary.flagged_boxes || 0} of ${fleetSummary.boxes || 0} boxes need attention${worst ? `; most urgent: ${worst.name} (${worst.issues.join(', ')})` : ''}.`;
+        break;
+      }
+        
+      case 'list_flows':
+      case 'search_flows':
+        presentationContent = this.formatListFlows(data, enhancedMetadata);
+        title = enhancedMetadata.query ? 
+          `Network Traffic Flows - ${enhancedMetadata.query}` : 
+          'Network Traffic Flows Report';
+        const flowData = data.results || [];
+        const totalTransfer = flowData.reduce((sum: number, flow: any) => 
+          sum + (flow.upload || 0) + (flow.download || 0), 0);
+        summary = `Found ${flowData.length} flows with total transfer of ${FirewallaResponseFormatter.formatBytes(totalTransfer)}${enhancedMetadata.query ? ` matching "${enhancedMetadata.query}"` : ''}.`;
+        break;
+        
+      case 'list_target_lists':
+      case 'get_target_list':
+        presentationContent = this.formatTargetLists(data, enhancedMetadata);
+        title = 'Firewalla Target Lists Configuration';
+        const listData = data.results || data || [];
+        const totalTargets = Array.isArray(listData) ? 
+          listData.reduce((sum: number, list: any) => sum + (list.targets || []).length, 0) :
+          (listData.targets || []).length;
+        summary = `Found ${Array.isArray(listData) ? listData.length : 1} target lists with ${totalTargets} total targets.`;
+        break;
+        
+      case 'get_trends':
+        presentationContent = this.formatGetTrends(data, enhancedMetadata);
+        const trendType = enhancedMetadata.trends_type || 'trends';
+        title = `Firewalla ${trendType.charAt(0).toUpperCase() + trendType.slice(1)} Trends Analysis`;
+        const trendData = data.results || data || [];
+        summary = `Showing ${trendData.length} data points for ${trendType} trends.`;
+        break;
+        
+      case 'search_global':
+        presentationContent = this.formatSearchGlobal(data, enhancedMetadata);
+        title = `Firewalla Global Search - "${enhancedMetadata.query || 'All'}"`;
+        let globalTotalResults = 0;
+        Object.entries(data).forEach(([_, results]: [string, any]) => {
+          if (Array.isArray(results)) globalTotalResults += results.length;
+        });
+        const failedSearches = (enhancedMetadata.search_types || []).filter((type: string) =>
+          enhancedMetadata[`${type}_status`] && enhancedMetadata[`${type}_status`] !== 'ok');
+        summary = `Found ${globalTotalResults} total results across all entity types${failedSearches.length > 0 ? ` (failed: ${failedSearches.join(', ')})` : ''}.`;
+        break;
+        
+      // Add more endpoint formatters here
+      default:
+        // Fallback to basic formatting
+        return formatResponse(data, responseType, metadata, format);
+    }
+    
+    // Fields the API no longer sends as expected would otherwise render as "Unknown"
+    if (enhancedMetadata.schema_warnings) {
+      presentationContent += `\n## ⚠️ Unexpected API Response Format\n`;
+      presentationContent += `Some fields did not match the expected schema, so values shown as "Unknown" or "N/A" may be missing rather than empty:\n`;
+      String(enhancedMetadata.schema_warnings).split('; ').forEach((warning) => {
+        presentationContent += `- ${warning}\n`;
+      });
+    }
+    
+    switch (format) {
+      case 'json':
+        return formatAsJSON(data, responseType, metadata, summary);
+      case 'compact':
+        return formatAsCompact(data, responseType, metadata, summary);
+      case 'markdown': {
+        const footer = metadataLine(metadata);
+        return `${presentationContent.trimEnd()}\n\n---\n${summary}${footer ? `\n\n${footer}` : ''}\n`;
+      }
+    }
+    
+    const timestamp = new Date().toISOString();
+    const metadataXML = metadata ? Object.entries(metadata).map(([key, value]) => 
+      `    <${escapeXML(key)}>${escapeXML(String(value))}</${escapeXML(key)}>`
+    ).join('\n') : '';
+    
+    const dataXML = jsonToXML(data, 2);
+    
+    return `<firewalla_response>
+  <metadata>
+    <response_type>${escapeXML(responseType)}</response_type>
+    <timestamp>${timestamp}</timestamp>
+${metadataXML}
+  </metadata>
+  <presentation>
+    <artifact_content type="markdown" title="${escapeXML(title)}">
+${escapeXML(presentationContent)}
+    </artifact_content>
+  </presentation>
+  <summary>${escapeXML(summary)}</summary>
+  <data>
+${dataXML}
+  </data>
+</firewalla_response>`;
+  }
+}
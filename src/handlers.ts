@@ -0,0 +1,888 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { validateToolArguments } from "./arguments.js";
+import { parseAuditTime } from "./audit.js";
+import { summarizeBox } from "./box-summary.js";
+import { cacheStatus } from "./cache.js";
+import { FirewallaMspClient, RequestOptions } from "./client.js";
+import { Profile, resolveProfile, ServerContext } from "./context.js";
+import { describeDryRun } from "./dry-run.js";
+import { exportColumns, ExportFormat, exportFileName, flattenRecord, toCSV, toNDJSON, writeExport } from "./export.js";
+import { errorMessage, resourceNotFound, toMcpError } from "./errors.js";
+import { assessFleet, SPIKE_BASELINE_DAYS } from "./fleet-health.js";
+import { FirewallaResponseFormatter, formatResponse, OUTPUT_FORMATS, OutputFormat, withRuleName } from "./formatting.js";
+import { MUTATING_TOOLS, toolDefinitions } from "./tools.js";
+import { outputSchemaFor } from "./output-schemas.js";
+import { filterToScope, isScoped, resolveBoxScope, scopeArguments } from "./roles.js";
+import { describeQueryErrors, formatQuery, QueryEntity, QueryValidation, resolveTimeRange, validateQuery } from "./query.js";
+import { BuildableEntity, buildQuery, BuiltQuery, QueryFilters } from "./query-builder.js";
+import { formatZonedTime } from "./time.js";
+import { EntityResolver } from "./resolver.js";
+import { ListResponse, QueryParams, RuleScope, RuleTarget, StatisticsType, TrendsType } from "./types.js";
+import { pickRestoreFields, planUndo, undoRefusal } from "./undo.js";
+import { schemaWarnings } from "./validation.js";
+
+// Every tool accepts an optional format for its response and declares its structured result
+function withResponseSchemas(tool: Tool): Tool {
+  const outputSchema = outputSchemaFor(tool.name);
+  return {
+    ...tool,
+    ...(outputSchema ? { outputSchema } : {}),
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        format: {
+          type: "string",
+          enum: OUTPUT_FORMATS,
+          description: "Response format: xml, json, markdown (rendered tables only) or compact (summary plus key fields). Defaults to the server's FIREWALLA_OUTPUT_FORMAT",
+        },
+      },
+    },
+  };
+}
+
+const toolsWithSchemas = toolDefinitions.map(withResponseSchemas);
+const toolsByName = new Map(toolsWithSchemas.map((tool) => [tool.name, tool]));
+
+// The text rendering plus the same data as structured content for clients that read outputSchema
+function toolResult(text: string, structuredContent: Record<string, unknown>) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
+}
+
+type ToolResult = ReturnType<typeof toolResult>;
+
+// Surface response drift and cache use detected by the client alongside the rest of the metadata
+function responseMetadata(...values: unknown[]): { schema_warnings?: string; cache?: string; cache_age_seconds?: number } {
+  const metadata: { schema_warnings?: string; cache?: string; cache_age_seconds?: number } = {};
+  const warnings = [...new Set(values.flatMap(schemaWarnings))];
+  if (warnings.length > 0) metadata.schema_warnings = warnings.join("; ");
+
+  // A response assembled from several calls is a hit only if every call was
+  const statuses = values.map(cacheStatus);
+  if (statuses.length > 0 && statuses.every((status) => status?.hit)) {
+    metadata.cache = "hit";
+    metadata.cache_age_seconds = Math.round(Math.max(...statuses.map((status) => status!.ageMs)) / 1000);
+  } else if (statuses.some((status) => status)) {
+    metadata.cache = "miss";
+  }
+  return metadata;
+}
+
+// Echo the window selected by `ts` terms so callers can see how "today" or a date was read
+function timeRangeMetadata(ctx: ServerContext, result: QueryValidation) {
+  const range = result.valid ? resolveTimeRange(result.nodes) : null;
+  if (!range) return {};
+  return {
+    time_range_from: range.from === null ? null : formatZonedTime(range.from, ctx.timeZone),
+    time_range_to: range.to === null ? null : formatZonedTime(range.to, ctx.timeZone),
+    time_zone: ctx.timeZone,
+  };
+}
+
+// Reject malformed queries with positions; valid ones are sent with units, times and box/device names resolved
+async function checkQuery(ctx: ServerContext, profile: Profile, query: unknown, entity?: QueryEntity) {
+  if (typeof query !== "string" || query === "") return { query: undefined, metadata: {} };
+  
+  const result = validateQuery(query, entity, { timeZone: ctx.timeZone });
+  if (!result.valid) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid query:\n${describeQueryErrors(query, result.errors)}`);
+  }
+  
+  const { nodes, resolved } = await profile.resolver.resolveQuery(result.nodes);
+  return {
+    query: formatQuery(nodes),
+    metadata: {
+      ...timeRangeMetadata(ctx, result),
+      ...(resolved.length > 0 ? { resolved_ids: resolved.map((ref) => `${ref.key}:${ref.reference} → ${ref.id}`).join("; ") } : {}),
+    },
+  };
+}
+
+// Compile structured filters, rejecting the call with one line per invalid filter
+function compileFilters(ctx: ServerContext, entity: BuildableEntity, filters: QueryFilters): BuiltQuery {
+  const built = buildQuery(entity, filters, { timeZone: ctx.timeZone });
+  if (built.errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid filters:\n${built.errors.map((error) => `- ${error}`).join("\n")}`);
+  }
+  return built;
+}
+
+// search_alarms and search_flows take a query, filters, or both
+function searchQuery(ctx: ServerContext, tool: string, entity: BuildableEntity, args: any) {
+  const compiled = args.filters ? compileFilters(ctx, entity, args.filters).query : "";
+  const query = [args.query, compiled].filter(Boolean).join(" ");
+  if (!query) {
+    throw new McpError(ErrorCode.InvalidParams, `${tool} needs a query or at least one filter`);
+  }
+  return { query, compiled: args.filters ? compiled : null };
+}
+
+function isToolEnabled(ctx: ServerContext, name: string): boolean {
+  return !(ctx.readOnly && MUTATING_TOOLS.has(name)) && (!ctx.identity || ctx.identity.tools.has(name));
+}
+
+// Every tool accepts an optional profile to pick the MSP tenant it runs against
+function withProfileArgument(ctx: ServerContext, tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        profile: {
+          type: "string",
+          enum: [...ctx.profiles.keys()],
+          description: `MSP profile to run against (default: ${ctx.defaultProfile}). Use list_profiles to see configured tenants`,
+        },
+      },
+    },
+  };
+}
+
+// Fetch a single page, or every page when the caller passes all/max_results
+async function fetchListPage(client: FirewallaMspClient, path: string, params: QueryParams, args: Record<string, unknown>) {
+  if (!args.all && !args.max_results) {
+    const data = await client.list(path, params);
+    return { data, pagination: {} };
+  }
+
+  // Page size follows the caller's limit; max_results caps the total
+  const data = await client.fetchAllPages(path, { ...params, limit: args.limit as number | undefined }, {
+    maxResults: args.max_results as number | undefined,
+  });
+  return {
+    data,
+    pagination: {
+      fetch_all: true,
+      pages_fetched: data.pages_fetched,
+      truncated: data.truncated,
+      next_cursor: data.next_cursor,
+    },
+  };
+}
+
+// Rules have no single-rule endpoint; a missing rule surfaces as a not-found error
+async function requireRule(client: FirewallaMspClient, id: string, options?: RequestOptions): Promise<any> {
+  const rule = await client.getRule(id, options);
+  if (!rule) throw resourceNotFound();
+  return rule;
+}
+
+// Rules may name a device by name, MAC or IP in their target or scope; the API wants the device ID
+async function resolveRuleDevices(resolver: EntityResolver, body: { target?: RuleTarget; scope?: RuleScope }): Promise<void> {
+  if (body.target?.type === "device") {
+    body.target = { ...body.target, value: await resolver.resolveDevice(body.target.value) };
+  }
+  if (body.scope?.type === "device") {
+    body.scope = { ...body.scope, value: await resolver.resolveDevice(body.scope.value) };
+  }
+}
+
+const SEARCH_TYPES = ["devices", "alarms", "flows", "boxes"] as const;
+type SearchType = typeof SEARCH_TYPES[number];
+
+/** How long search_global waits for each entity type by default */
+const SEARCH_TYPE_TIMEOUT = 15000;
+
+interface SearchOutcome {
+  status: "ok" | "error" | "timeout";
+  data?: ListResponse<unknown>;
+  error?: string;
+}
+
+// Search one entity type for search_global, turning failures and timeouts into a status
+async function searchType(client: FirewallaMspClient, type: SearchType, params: QueryParams, timeout: number): Promise<SearchOutcome> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const data = await client.list(`/${type}`, params, { signal: controller.signal });
+    return { status: "ok", data };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { status: "timeout", error: `No response within ${timeout / 1000}s` };
+    }
+    return { status: "error", error: errorMessage(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function registerToolHandlers(server: Server, ctx: ServerContext): void {
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: toolsWithSchemas
+        .filter((tool) => isToolEnabled(ctx, tool.name))
+        .map((tool) => withProfileArgument(ctx, tool)),
+    };
+  });
+
+  // Run one tool call; export_results calls back in to run the tool it exports
+  const callTool = async (name: string, args: Record<string, any>): Promise<ToolResult> => {
+    if (ctx.identity && !ctx.identity.tools.has(name)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool ${name} is not available to client ${ctx.identity.name} (role ${ctx.identity.role})`
+      );
+    }
+    if (!isToolEnabled(ctx, name)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool ${name} modifies Firewalla configuration and is disabled because the server is running in read-only mode (FIREWALLA_READ_ONLY=true)`
+      );
+    }
+
+    // Reject malformed calls before they turn into confusing upstream errors
+    const tool = toolsByName.get(name);
+    if (tool) {
+      validateToolArguments(tool, args);
+    }
+
+    try {
+      // Box and group scopes are names within one tenant, so scoped clients stay on the default profile
+      if (isScoped(ctx.identity) && args.profile && args.profile !== ctx.defaultProfile) {
+        throw new McpError(ErrorCode.InvalidParams, `Client ${ctx.identity.name} may only use profile ${ctx.defaultProfile}`);
+      }
+      const tenant = resolveProfile(ctx, args.profile);
+      const format: OutputFormat = args.format || ctx.outputFormat;
+      // Clients limited to some boxes or groups get their arguments checked and their results
+      // filtered, and only resolve names among their own boxes and the devices on them
+      const allowed = isScoped(ctx.identity) ? await resolveBoxScope(ctx.identity, tenant.resolver) : null;
+      const profile: Profile = allowed ? { ...tenant, resolver: tenant.resolver.within(allowed) } : tenant;
+      const { client, resolver } = profile;
+      if (allowed) {
+        args = await scopeArguments(ctx.identity!, name, args, allowed, client, resolver);
+      }
+      const scoped = (data: any, metadata: Record<string, any> = {}) =>
+        allowed ? filterToScope(name, data, metadata, allowed) : { data, metadata };
+      const structured = (data: unknown, metadata: Record<string, any> = {}) => ({
+        response_type: name,
+        metadata,
+        // Writes may answer with an empty body
+        data: data === undefined || data === "" ? null : data,
+      });
+      const respond = (result: any, responseType: string, resultMetadata?: Record<string, any>) => {
+        const { data, metadata } = scoped(result, resultMetadata);
+        return toolResult(formatResponse(data, responseType, metadata, format), structured(data, metadata));
+      };
+      const respondEnhanced = (result: any, responseType: string, resultMetadata?: Record<string, any>) => {
+        const { data, metadata } = scoped(result, resultMetadata);
+        return toolResult(FirewallaResponseFormatter.formatEnhancedResponse(data, responseType, metadata, format), structured(data, metadata));
+      };
+      const dryRun = (...change: Parameters<typeof describeDryRun>) => {
+        const preview = describeDryRun(...change);
+        return respond(preview.data, name, preview.metadata);
+      };
+      const written = (message: string, operation: string, resourceType: string, resourceId: string, changeId: string) =>
+        respond(
+          { operation, resource_type: resourceType, resource_id: resourceId, change_id: changeId },
+          name,
+          { message, change_id: changeId }
+        );
+      const operation = {
+        tool: name,
+        profile: profile.name,
+        client: ctx.identity?.name || server.getClientVersion()?.name || null,
+        args,
+      };
+
+      switch (name) {
+        // Boxes API
+        case "list_boxes": {
+          const data = await client.listBoxes({ group: args.group });
+          return respond(data, "list_boxes", { count: data.count || data.results?.length || 0, ...responseMetadata(data) });
+        }
+
+        case "get_box": {
+          const gid = await resolver.resolveBox(args.box);
+          const { data, errors } = await summarizeBox(client, gid);
+          return respondEnhanced(data, "get_box", {
+            gid,
+            ...Object.fromEntries(Object.entries(errors).map(([part, error]) => [`${part}_error`, error])),
+          });
+        }
+
+        // Devices API
+        case "list_devices": {
+          const box = args.box ? await resolver.resolveBox(args.box) : undefined;
+          const data = await client.listDevices({ box, group: args.group });
+          return respondEnhanced(data, "list_devices", {
+            box: box || null,
+            group: args.group || null,
+            ...responseMetadata(data)
+          });
+        }
+
+        // Alarms API
+        case "list_alarms": {
+          const checked = await checkQuery(ctx, profile, args.query, "alarms");
+          const params: QueryParams = {
+            query: checked.query,
+            groupBy: args.groupBy,
+            sortBy: args.sortBy,
+            limit: args.limit,
+            cursor: args.cursor,
+          };
+          const { data, pagination } = await fetchListPage(client, "/alarms", params, args);
+
+          return respondEnhanced(data, "list_alarms", {
+            query: args.query || null,
+            ...checked.metadata,
+            group_by: args.groupBy || null,
+            sort_by: args.sortBy || null,
+            limit: args.limit || null,
+            cursor: args.cursor || null,
+            ...pagination,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "get_alarm": {
+          const gid = await resolver.resolveBox(args.gid);
+          const alarm = await client.getAlarm(gid, args.aid);
+          return respond(alarm, "get_alarm", {
+            gid,
+            aid: args.aid,
+            ...responseMetadata(alarm)
+          });
+        }
+
+        case "delete_alarm": {
+          const gid = await resolver.resolveBox(args.gid);
+          if (args.dry_run) {
+            const alarm = await client.getAlarm(gid, args.aid);
+            return dryRun("delete", "alarm", `${gid}/${args.aid}`, alarm, null);
+          }
+
+          const { changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "alarm",
+            resourceId: `${gid}/${args.aid}`,
+            snapshot: () => client.getAlarm(gid, args.aid, { fresh: true }),
+          }, () => client.deleteAlarm(gid, args.aid));
+          return written("Alarm deleted successfully", "delete", "alarm", `${gid}/${args.aid}`, changeId);
+        }
+
+        // Rules API
+        case "list_rules": {
+          const checked = await checkQuery(ctx, profile, args.query, "rules");
+          const data = await client.listRules({ query: checked.query });
+          // Add rule names based on target/scope if missing
+          data.results = data.results.map(withRuleName);
+
+          return respondEnhanced(data, "list_rules", {
+            query: args.query || null,
+            ...checked.metadata,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "pause_rule": {
+          if (args.dry_run) {
+            const rule = await requireRule(client, args.id);
+            return dryRun("update", "rule", args.id, rule, { ...rule, status: "paused" });
+          }
+
+          const { changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "rule",
+            resourceId: args.id,
+            snapshot: () => requireRule(client, args.id, { fresh: true }),
+          }, () => client.pauseRule(args.id));
+          return written("Rule paused successfully", "pause", "rule", args.id, changeId);
+        }
+
+        case "resume_rule": {
+          if (args.dry_run) {
+            const rule = await requireRule(client, args.id);
+            return dryRun("update", "rule", args.id, rule, { ...rule, status: "active" });
+          }
+
+          const { changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "rule",
+            resourceId: args.id,
+            snapshot: () => requireRule(client, args.id, { fresh: true }),
+          }, () => client.resumeRule(args.id));
+          return written("Rule resumed successfully", "resume", "rule", args.id, changeId);
+        }
+
+        case "create_rule": {
+          const body: any = {
+            action: args.action,
+            direction: args.direction,
+            protocol: args.protocol,
+            target: args.target,
+          };
+
+          // Add optional fields
+          if (args.name) body.name = args.name;
+          if (args.scope) body.scope = args.scope;
+          if (args.schedule) body.schedule = args.schedule;
+          await resolveRuleDevices(resolver, body);
+
+          if (args.dry_run) {
+            return dryRun("create", "rule", null, null, body);
+          }
+
+          const { result, changeId } = await ctx.auditLog.record(operation, { resourceType: "rule" }, () =>
+            client.createRule(body)
+          );
+          return respond(result.data, "create_rule", {
+            change_id: changeId,
+            action: args.action,
+            direction: args.direction,
+            protocol: args.protocol,
+            target_type: args.target?.type,
+            target_value: args.target?.value
+          });
+        }
+
+        case "update_rule": {
+          const body: any = {};
+
+          // Add fields that are provided
+          if (args.name) body.name = args.name;
+          if (args.action) body.action = args.action;
+          if (args.direction) body.direction = args.direction;
+          if (args.protocol) body.protocol = args.protocol;
+          if (args.target) body.target = args.target;
+          if (args.scope) body.scope = args.scope;
+          if (args.status) body.status = args.status;
+          await resolveRuleDevices(resolver, body);
+
+          if (args.dry_run) {
+            const rule = await requireRule(client, args.id);
+            return dryRun("update", "rule", args.id, rule, { ...rule, ...body });
+          }
+
+          const { result, changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "rule",
+            resourceId: args.id,
+            snapshot: () => requireRule(client, args.id, { fresh: true }),
+          }, () => client.updateRule(args.id, body));
+          return respond(result.data, "update_rule", {
+            change_id: changeId,
+            rule_id: args.id,
+            updated_fields: Object.keys(body),
+            field_count: Object.keys(body).length
+          });
+        }
+
+        case "delete_rule": {
+          if (args.dry_run) {
+            return dryRun("delete", "rule", args.id, await requireRule(client, args.id), null);
+          }
+
+          const { changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "rule",
+            resourceId: args.id,
+            snapshot: () => requireRule(client, args.id, { fresh: true }),
+          }, () => client.deleteRule(args.id));
+          return written("Rule deleted successfully", "delete", "rule", args.id, changeId);
+        }
+
+        // Flows API
+        case "list_flows": {
+          const checked = await checkQuery(ctx, profile, args.query, "flows");
+          const params: QueryParams = {
+            query: checked.query,
+            groupBy: args.groupBy,
+            sortBy: args.sortBy,
+            limit: args.limit,
+            cursor: args.cursor,
+          };
+          const { data, pagination } = await fetchListPage(client, "/flows", params, args);
+
+          return respondEnhanced(data, "list_flows", {
+            query: args.query || null,
+            ...checked.metadata,
+            group_by: args.groupBy || null,
+            sort_by: args.sortBy || null,
+            limit: args.limit || null,
+            cursor: args.cursor || null,
+            ...pagination,
+            ...responseMetadata(data)
+          });
+        }
+
+        // Target Lists API
+        case "list_target_lists": {
+          const data = await client.listTargetLists();
+          return respondEnhanced(data, "list_target_lists", {
+            count: data.count || data.results?.length || 0,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "get_target_list": {
+          const targetList = await client.getTargetList(args.id);
+          return respondEnhanced(targetList, "get_target_list", {
+            target_list_id: args.id,
+            ...responseMetadata(targetList)
+          });
+        }
+
+        case "create_target_list": {
+          const body: any = {
+            name: args.name,
+            targets: args.targets,
+          };
+          if (args.owner) body.owner = args.owner;
+          if (args.category) body.category = args.category;
+          if (args.notes) body.notes = args.notes;
+
+          if (args.dry_run) {
+            return dryRun("create", "target_list", null, null, body);
+          }
+
+          const { result, changeId } = await ctx.auditLog.record(operation, { resourceType: "target_list" }, () =>
+            client.createTargetList(body)
+          );
+          return respondEnhanced(result.data, "list_target_lists", {
+            change_id: changeId,
+            name: args.name,
+            target_count: args.targets?.length || 0,
+            owner: args.owner || null,
+            category: args.category || null
+          });
+        }
+
+        case "update_target_list": {
+          const body: any = {};
+          if (args.name) body.name = args.name;
+          if (args.targets) body.targets = args.targets;
+          if (args.owner) body.owner = args.owner;
+          if (args.category) body.category = args.category;
+          if (args.notes) body.notes = args.notes;
+
+          if (args.dry_run) {
+            const targetList = await client.getTargetList(args.id);
+            return dryRun("update", "target_list", args.id, targetList, { ...targetList, ...body });
+          }
+
+          const { result, changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "target_list",
+            resourceId: args.id,
+            snapshot: () => client.getTargetList(args.id, { fresh: true }),
+          }, () => client.updateTargetList(args.id, body));
+          return respond(result.data, "update_target_list", {
+            change_id: changeId,
+            target_list_id: args.id,
+            updated_fields: Object.keys(body),
+            field_count: Object.keys(body).length
+          });
+        }
+
+        case "delete_target_list": {
+          if (args.dry_run) {
+            const targetList = await client.getTargetList(args.id);
+            return dryRun("delete", "target_list", args.id, targetList, null);
+          }
+
+          const { changeId } = await ctx.auditLog.record(operation, {
+            resourceType: "target_list",
+            resourceId: args.id,
+            snapshot: () => client.getTargetList(args.id, { fresh: true }),
+          }, () => client.deleteTargetList(args.id));
+          return written("Target list deleted successfully", "delete", "target_list", args.id, changeId);
+        }
+
+        // Statistics API
+        case "get_statistics": {
+          const data = await client.getStatistics(args.type as StatisticsType, { group: args.group, limit: args.limit });
+          return respondEnhanced(data, "get_statistics", {
+            stats_type: args.type,
+            group: args.group || null,
+            limit: args.limit || null,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "get_simple_statistics": {
+          const data = await client.getSimpleStatistics({ group: args.group });
+          return respondEnhanced(data, "get_simple_statistics", {
+            group: args.group || null,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "fleet_health": {
+          const { data, errors, truncated } = await assessFleet(client, { group: args.group });
+          return respondEnhanced(data, "fleet_health", {
+            group: args.group || null,
+            alarm_window_days: SPIKE_BASELINE_DAYS + 1,
+            alarms_truncated: truncated,
+            ...Object.fromEntries(Object.entries(errors).map(([part, error]) => [`${part}_error`, error])),
+          });
+        }
+
+        // Trends API
+        case "get_trends": {
+          const data = await client.getTrends(args.type as TrendsType, { group: args.group });
+          return respondEnhanced(data, "get_trends", {
+            trends_type: args.type,
+            group: args.group || null,
+            count: data.count || data.results?.length || 0,
+            ...responseMetadata(data)
+          });
+        }
+
+        // Search API
+        case "search_global": {
+          const searchTypes: SearchType[] = args.types || SEARCH_TYPES;
+          const { query, metadata: queryMetadata } = await checkQuery(ctx, profile, args.query);
+          const limit = args.limit || 10;
+          const timeout = args.timeout || SEARCH_TYPE_TIMEOUT;
+
+          // Each type runs on its own; one slow or failing type does not hide the others
+          const outcomes = await Promise.all(searchTypes.map((type) =>
+            searchType(client, type, { query, limit, cursor: args.cursors?.[type] || args.cursor }, timeout)
+          ));
+
+          const results: Record<string, unknown[]> = {};
+          const typeMetadata: Record<string, unknown> = {};
+          outcomes.forEach((outcome, index) => {
+            const type = searchTypes[index];
+            results[type] = outcome.data?.results || [];
+            typeMetadata[`${type}_status`] = outcome.status;
+            typeMetadata[`${type}_count`] = results[type].length;
+            if (outcome.error) typeMetadata[`${type}_error`] = outcome.error;
+            if (outcome.data?.next_cursor) typeMetadata[`${type}_next_cursor`] = outcome.data.next_cursor;
+          });
+          const failed = searchTypes.filter((type) => typeMetadata[`${type}_status`] !== "ok");
+
+          return respondEnhanced(results, "search_global", {
+            query: args.query,
+            ...queryMetadata,
+            search_types: searchTypes,
+            limit: limit,
+            total_count: Object.values(results).reduce((sum, items) => sum + items.length, 0),
+            status: failed.length === 0 ? "ok" : failed.length === searchTypes.length ? "failed" : "partial",
+            ...typeMetadata,
+            ...responseMetadata(...outcomes.flatMap((outcome) => outcome.data ? [outcome.data] : []))
+          });
+        }
+
+        case "search_devices": {
+          const checked = await checkQuery(ctx, profile, args.query, "devices");
+          const params = { query: checked.query, limit: args.limit || 50, cursor: args.cursor };
+          const { data, pagination } = await fetchListPage(client, "/devices", params, args);
+
+          return respondEnhanced(data, "search_devices", {
+            query: args.query,
+            ...checked.metadata,
+            limit: args.limit || 50,
+            cursor: args.cursor || null,
+            ...pagination,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "search_alarms": {
+          const search = searchQuery(ctx, "search_alarms", "alarms", args);
+          const checked = await checkQuery(ctx, profile, search.query, "alarms");
+          const params = { query: checked.query, limit: args.limit || 50, cursor: args.cursor };
+          const { data, pagination } = await fetchListPage(client, "/alarms", params, args);
+
+          return respondEnhanced(data, "search_alarms", {
+            query: search.query,
+            compiled_query: search.compiled,
+            ...checked.metadata,
+            limit: args.limit || 50,
+            cursor: args.cursor || null,
+            ...pagination,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "search_flows": {
+          const search = searchQuery(ctx, "search_flows", "flows", args);
+          const checked = await checkQuery(ctx, profile, search.query, "flows");
+          const params = { query: checked.query, limit: args.limit || 50, cursor: args.cursor };
+          const { data, pagination } = await fetchListPage(client, "/flows", params, args);
+          const flows = data.results || [];
+
+          return respond(data, "search_flows", {
+            query: search.query,
+            compiled_query: search.compiled,
+            ...checked.metadata,
+            limit: args.limit || 50,
+            count: flows.length,
+            has_more: !!data.next_cursor,
+            next_cursor: data.next_cursor || null,
+            ...pagination,
+            ...responseMetadata(data)
+          });
+        }
+
+        case "validate_query": {
+          const result = validateQuery(args.query, args.type, { timeZone: ctx.timeZone });
+          return respond({
+            valid: result.valid,
+            normalized_query: result.valid ? result.normalized : null,
+            errors: result.errors.map((error) => ({
+              ...error,
+              pointer: describeQueryErrors(args.query, [error]),
+            })),
+            terms: result.nodes,
+          }, "validate_query", {
+            query: args.query,
+            entity_type: args.type || "any",
+            valid: result.valid,
+            error_count: result.errors.length,
+            ...timeRangeMetadata(ctx, result)
+          });
+        }
+
+        case "build_query": {
+          const built = compileFilters(ctx, args.type, args.filters);
+          const result = validateQuery(built.query, args.type, { timeZone: ctx.timeZone });
+          return respond({
+            query: built.query,
+            normalized_query: result.normalized,
+            terms: built.terms,
+          }, "build_query", {
+            entity_type: args.type,
+            term_count: built.terms.length,
+            ...timeRangeMetadata(ctx, result)
+          });
+        }
+
+        // Profiles
+        case "list_profiles": {
+          const profileList = [...ctx.profiles.values()].map((candidate) => ({
+            name: candidate.name,
+            domain: candidate.domain,
+            key_source: candidate.keySource,
+            description: candidate.description,
+            default: candidate.name === ctx.defaultProfile,
+          }));
+          return respond(profileList, "list_profiles", {
+            count: profileList.length,
+            default_profile: ctx.defaultProfile
+          });
+        }
+
+        // Audit log
+        case "undo_change": {
+          const entry = await ctx.auditLog.find(args.change_id);
+          if (!entry) {
+            throw new McpError(ErrorCode.InvalidParams, `No audit log entry with change ID ${args.change_id}`);
+          }
+
+          // Undo against the tenant the change was made on, not the caller's profile
+          const undoProfile = resolveProfile(ctx, entry.profile);
+          const plan = await planUndo(undoProfile.client, entry);
+          const kind = plan.operation === "restore" ? "update" : plan.operation === "recreate" ? "create" : "delete";
+
+          if (args.dry_run) {
+            const after = plan.desired === null ? null : { ...plan.current, ...pickRestoreFields(entry.resource_type, plan.desired) };
+            return dryRun(kind, entry.resource_type, plan.resourceId, plan.current, after);
+          }
+
+          const { result, changeId } = await ctx.auditLog.record({ ...operation, profile: undoProfile.name }, {
+            resourceType: entry.resource_type,
+            resourceId: plan.resourceId ?? undefined,
+            snapshot: async () => plan.current,
+          }, plan.write);
+
+          return respond({
+            operation: plan.operation,
+            resource_type: entry.resource_type,
+            resource_id: plan.resourceId ?? result.data?.id ?? null,
+            before: plan.current,
+            after: result.data ?? null,
+          }, "undo_change", {
+            change_id: changeId,
+            undone_change_id: entry.change_id,
+            undone_tool: entry.tool,
+            operation: plan.operation
+          });
+        }
+
+        case "get_audit_log": {
+          const since = parseAuditTime(args.since, "since");
+          const until = parseAuditTime(args.until, "until");
+          const limit = Math.min(args.limit || 50, 500);
+
+          const matches = (await ctx.auditLog.read())
+            .filter((entry) => {
+              const time = Date.parse(entry.timestamp);
+              if (since !== null && time < since) return false;
+              if (until !== null && time > until) return false;
+              if (args.tool && entry.tool !== args.tool) return false;
+              if (args.profile && (entry.profile ?? ctx.defaultProfile) !== args.profile) return false;
+              if (args.resource_id && entry.resource_id !== String(args.resource_id)) return false;
+              return true;
+            })
+            .reverse();
+          // Say up front which changes undo_change would refuse
+          const entries = matches.slice(0, limit).map((entry) => {
+            const refusal = undoRefusal(entry);
+            return { ...entry, undoable: !refusal, ...(refusal ? { undo_error: errorMessage(refusal) } : {}) };
+          });
+
+          return respond(entries, "get_audit_log", {
+            audit_log_path: ctx.auditLog.path,
+            total_matches: matches.length,
+            count: Math.min(matches.length, limit)
+          });
+        }
+
+        // Export
+        case "export_results": {
+          const exported = toolsByName.get(args.tool)!;
+          const fileFormat: ExportFormat = args.file_format || "csv";
+          const fileName = exportFileName(args.tool, fileFormat, args.filename);
+          const paginated = !!exported.inputSchema.properties?.all;
+
+          // Run the tool as the caller would, but with every page and as structured data
+          const result = await callTool(args.tool, {
+            ...args.arguments,
+            profile: args.arguments?.profile ?? args.profile,
+            format: "json",
+            ...(paginated ? { all: true, max_results: args.max_results } : {}),
+          });
+          const { data, metadata: source } = result.structuredContent as { data: any; metadata: Record<string, any> };
+
+          const records: unknown[] = args.tool === "search_global"
+            ? Object.entries(data as Record<string, unknown[]>).flatMap(([type, items]) => items.map((item) => ({ type, ...(item as object) })))
+            : Array.isArray(data) ? data : data?.results || [];
+          const rows = records.slice(0, args.max_results || records.length).map((record) => flattenRecord(record));
+          const columns = exportColumns(rows);
+          const path = await writeExport(ctx.exportDirectory, fileName,
+            fileFormat === "csv" ? toCSV(rows, columns) : toNDJSON(rows));
+
+          return respond({ path, file_format: fileFormat, row_count: rows.length, columns }, "export_results", {
+            tool: args.tool,
+            file_format: fileFormat,
+            row_count: rows.length,
+            column_count: columns.length,
+            truncated: source.truncated || rows.length < records.length,
+            pages_fetched: source.pages_fetched ?? null,
+            ...Object.fromEntries(Object.entries(source).filter(([key]) => key.endsWith("_status") || key.endsWith("_error"))),
+          });
+        }
+
+        default:
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${name}`
+          );
+      }
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  };
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params as { name: string; arguments?: Record<string, any> };
+    return callTool(name, args);
+  });
+}
@@ -0,0 +1,236 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { ClientIdentity, ClientRegistry } from "./roles.js";
+
+// Serves MCP over HTTP so a team can share one server instead of each running their own.
+// Streamable HTTP lives at /mcp; older clients can use the SSE transport at /sse and /messages.
+// Every session gets its own MCP server from the factory, limited to the tools and boxes of
+// the client that opened it when a roles file is configured.
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+
+/** Largest JSON-RPC request body accepted */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+export interface HttpTransportOptions {
+  /** Address to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on; 0 picks a free port (default: 3000) */
+  port?: number;
+  /** Clients must send `Authorization: Bearer <token>`; required unless bound to loopback or `clients` is set */
+  token?: string;
+  /** Per-client tokens with roles; `token`, if also set, still grants every tool */
+  clients?: ClientRegistry;
+  debugLog?: (message: string) => void;
+}
+
+export interface RunningHttpServer {
+  /** The bound address, e.g. to find the port picked for port 0 */
+  address: AddressInfo;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+// A JSON-RPC error outside any request, as the SDK transports report them
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+// Compare digests so neither the token's contents nor its length leak through timing
+function tokenMatches(presented: string, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+// Who sent a request: a registered client, the holder of the shared token (or anyone, when
+// no token is configured) with `identity` undefined, or null when the token is wrong
+function authenticate(header: string | undefined, options: HttpTransportOptions): { identity?: ClientIdentity } | null {
+  const presented = header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  const identity = options.clients?.authenticate(presented);
+  if (identity) return { identity };
+  if (options.token) return tokenMatches(presented, options.token) ? {} : null;
+  return options.clients ? null : {};
+}
+
+// The host name a request was addressed to, without port or IPv6 brackets
+function requestHostname(header: string | undefined): string | null {
+  try {
+    return new URL(`http://${header}`).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return null;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Listen for MCP clients over HTTP. Resolves once the port is bound.
+ *
+ * Throws when asked to listen beyond loopback without a token or client registry.
+ */
+export async function startHttpServer(createMcpServer: (identity?: ClientIdentity) => Server, options: HttpTransportOptions = {}): Promise<RunningHttpServer> {
+  const host = options.host || DEFAULT_HTTP_HOST;
+  const port = options.port ?? DEFAULT_HTTP_PORT;
+  const log = options.debugLog || (() => {});
+  if (!options.token && !options.clients && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`FIREWALLA_HTTP_TOKEN or FIREWALLA_ROLES_FILE is required to listen on ${host}; without it anyone who can reach the port can use the MSP API key`);
+  }
+
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+  // Which client opened each session, so another client's token cannot take it over
+  const owners = new Map<string, string | undefined>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, body: unknown, identity?: ClientIdentity) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    let transport = sessionId ? sessions.get(sessionId) : undefined;
+    if (transport && owners.get(sessionId!) !== identity?.name) {
+      sendRpcError(res, 403, -32000, "Session belongs to another client");
+      return;
+    }
+
+    if (!transport) {
+      if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+        sendRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? "Session not found" : "Bad Request: No valid session ID provided");
+        return;
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, created);
+          owners.set(id, identity?.name);
+          log(`HTTP session ${id} opened (${sessions.size} active)`);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId && sessions.delete(created.sessionId)) {
+          owners.delete(created.sessionId);
+          log(`HTTP session ${created.sessionId} closed (${sessions.size} active)`);
+        }
+      };
+      await createMcpServer(identity).connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (res: ServerResponse, identity?: ClientIdentity) => {
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, transport);
+    owners.set(transport.sessionId, identity?.name);
+    log(`SSE session ${transport.sessionId} opened (${sseSessions.size} active)`);
+    res.on("close", () => {
+      sseSessions.delete(transport.sessionId);
+      owners.delete(transport.sessionId);
+      log(`SSE session ${transport.sessionId} closed (${sseSessions.size} active)`);
+    });
+    await createMcpServer(identity).connect(transport);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    // On loopback, a web page could point its own domain at 127.0.0.1 (DNS rebinding) and
+    // reach the server from the browser; such requests still carry the page's domain as Host
+    if (LOOPBACK_HOSTS.has(host) && !LOOPBACK_HOSTS.has(requestHostname(req.headers.host) || "")) {
+      sendJson(res, 403, { error: "Host not allowed" });
+      return;
+    }
+
+    // Unauthenticated so reverse proxies and orchestrators can probe it
+    if (url.pathname === "/health" && req.method === "GET") {
+      sendJson(res, 200, { status: "ok" });
+      return;
+    }
+
+    const caller = authenticate(req.headers.authorization, options);
+    if (!caller) {
+      sendJson(res, 401, { error: "Missing or invalid bearer token" }, { "WWW-Authenticate": 'Bearer realm="firewalla-msp-mcp"' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+
+    if (url.pathname === "/mcp") {
+      await handleStreamable(req, res, body, caller.identity);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSse(res, caller.identity);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      const sessionId = url.searchParams.get("sessionId") || "";
+      const transport = sseSessions.get(sessionId);
+      if (!transport) {
+        sendRpcError(res, 404, -32000, "Session not found");
+        return;
+      }
+      if (owners.get(sessionId) !== caller.identity?.name) {
+        sendRpcError(res, 403, -32000, "Session belongs to another client");
+        return;
+      }
+      await transport.handlePostMessage(req, res, body);
+    } else {
+      sendJson(res, 404, { error: "Not found" });
+    }
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      log(`HTTP ${req.method} ${req.url} failed: ${error instanceof Error ? error.message : error}`);
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    address: httpServer.address() as AddressInfo,
+    close: async () => {
+      // Open SSE streams would otherwise keep the listener alive
+      await Promise.all([...sessions.values(), ...sseSessions.values()].map((transport) => transport.close().catch(() => {})));
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+}
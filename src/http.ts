@@ -0,0 +1,146 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { RequestLimiter } from "./rate-limit.js";
+import { SERVER_VERSION } from "./version.js";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Allow retries for a non-idempotent request (e.g. a POST that is safe to repeat) */
+    retrySafe?: boolean;
+    /** Number of retries already attempted for this request */
+    retryCount?: number;
+    /** Frees the limiter slot held by this request */
+    releaseSlot?: () => void;
+  }
+}
+
+export interface HttpClientOptions {
+  /** MSP domain without scheme, e.g. `company.firewalla.net` */
+  domain: string;
+  apiKey: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Retries for failed idempotent requests (default: 3) */
+  maxRetries?: number;
+  userAgent?: string;
+  /** Log requests and retries to stderr */
+  debug?: boolean;
+  /** Rate and concurrency limits; pass one limiter to several clients to share them (default: a limiter with default settings) */
+  limiter?: RequestLimiter;
+}
+
+export const DEFAULT_TIMEOUT = 30000;
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_USER_AGENT = `firewalla-msp-mcp-server/${SERVER_VERSION}`;
+
+// Backoff bounds for retried requests
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"]);
+
+// stdout carries the MCP protocol, so all diagnostics go to stderr
+export function createDebugLogger(enabled: boolean): (message: string) => void {
+  return (message: string) => {
+    if (enabled) {
+      console.error(`[firewalla-msp] ${message}`);
+    }
+  };
+}
+
+function isRetryableError(error: AxiosError): boolean {
+  const config = error.config;
+  if (!config) return false;
+  
+  const method = (config.method || "get").toLowerCase();
+  if (!IDEMPOTENT_METHODS.has(method) && !config.retrySafe) return false;
+  
+  // Network errors and timeouts have no response
+  if (!error.response) return error.code !== AxiosError.ERR_CANCELED;
+  
+  const status = error.response.status;
+  return status === 429 || status >= 500;
+}
+
+// Retry-After may be either delta-seconds or an HTTP date
+export function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== "string" || header.trim() === "") return null;
+  
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  
+  return null;
+}
+
+function getRetryDelay(error: AxiosError, attempt: number): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+  if (retryAfter !== null) return Math.min(retryAfter, RETRY_MAX_DELAY_MS);
+  
+  // Exponential backoff with full jitter
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function describeRequest(config: InternalAxiosRequestConfig): string {
+  return `${(config.method || "get").toUpperCase()} ${config.url}`;
+}
+
+// Create axios instance with authentication, timeout and retries
+export function createHttpClient(options: HttpClientOptions): AxiosInstance {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const debugLog = createDebugLogger(!!options.debug);
+  const limiter = options.limiter || new RequestLimiter({ debugLog });
+  
+  const httpClient = axios.create({
+    baseURL: `https://${options.domain}/v2`,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT,
+    headers: {
+      'Authorization': `Token ${options.apiKey}`,
+      'Content-Type': 'application/json',
+      'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+    },
+  });
+
+  httpClient.interceptors.request.use(async (config) => {
+    config.releaseSlot = await limiter.acquire(describeRequest(config));
+    debugLog(`${describeRequest(config)}${config.retryCount ? ` (retry ${config.retryCount}/${maxRetries})` : ''}`);
+    return config;
+  });
+
+  // Free the slot before any retry delay so other requests are not held up
+  httpClient.interceptors.response.use((response) => {
+    response.config.releaseSlot?.();
+    return response;
+  }, (error) => {
+    if (axios.isAxiosError(error)) error.config?.releaseSlot?.();
+    throw error;
+  });
+
+  httpClient.interceptors.response.use(undefined, async (error) => {
+    if (!axios.isAxiosError(error) || !error.config || !isRetryableError(error)) {
+      throw error;
+    }
+    
+    const config = error.config;
+    const attempt = config.retryCount || 0;
+    if (attempt >= maxRetries) {
+      throw error;
+    }
+    
+    const delay = getRetryDelay(error, attempt);
+    debugLog(`${describeRequest(config)} failed (${error.response?.status ?? error.code}), retrying in ${delay}ms`);
+    if (error.response?.status === 429) {
+      // The whole API is throttled, so hold every queued request, not just this one
+      limiter.backOff(delay);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    
+    config.retryCount = attempt + 1;
+    return httpClient.request(config);
+  });
+
+  return httpClient;
+}
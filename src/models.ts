@@ -0,0 +1,174 @@
+// Payloads returned by the Firewalla MSP v2 API.
+// Only the fields the server reads are declared; the API may send more.
+
+import { RuleAction, RuleDirection, RuleProtocol, RuleSchedule, RuleScope, RuleStatus, RuleTarget } from "./types.js";
+
+export interface Box {
+  gid: string;
+  name?: string;
+  model?: string;
+  mode?: string;
+  version?: string;
+  online?: boolean;
+  /** Epoch seconds */
+  lastSeen?: number;
+  group?: string;
+  deviceCount?: number;
+  alarmCount?: number;
+  ruleCount?: number;
+  [key: string]: unknown;
+}
+
+export interface DeviceNetwork {
+  id?: string;
+  name?: string;
+}
+
+export interface Device {
+  /** MAC address, upper case with colons */
+  id?: string;
+  gid?: string;
+  name?: string;
+  mac?: string;
+  ip?: string;
+  ipAddress?: string;
+  macVendor?: string;
+  online?: boolean;
+  /** Epoch seconds */
+  lastSeen?: number;
+  lastActiveTime?: number;
+  type?: string;
+  deviceType?: string;
+  network?: DeviceNetwork;
+  group?: { id?: string; name?: string };
+  totalDownload?: number;
+  totalUpload?: number;
+  download?: number;
+  upload?: number;
+  [key: string]: unknown;
+}
+
+export interface Transfer {
+  download?: number;
+  upload?: number;
+  total?: number;
+}
+
+export interface Remote {
+  domain?: string;
+  ip?: string;
+  country?: string;
+  region?: string;
+  category?: string;
+}
+
+export interface Alarm {
+  gid: string;
+  aid: string;
+  /** Epoch seconds */
+  ts: number;
+  type: number;
+  alarmType?: string;
+  message?: string;
+  status?: string;
+  severity?: string;
+  device?: { id?: string; name?: string; ip?: string; ipAddress?: string };
+  remote?: Remote;
+  transfer?: Transfer;
+  [key: string]: unknown;
+}
+
+export interface Flow {
+  /** Epoch seconds */
+  ts: number;
+  gid?: string;
+  protocol?: string;
+  direction?: string;
+  block?: boolean;
+  download?: number;
+  upload?: number;
+  duration?: number;
+  count?: number;
+  domain?: string;
+  ip?: string;
+  country?: string;
+  category?: string;
+  device?: { id?: string; name?: string; ip?: string };
+  deviceMAC?: string;
+  deviceName?: string;
+  source?: { id?: string; name?: string; ip?: string };
+  destination?: { id?: string; name?: string; ip?: string };
+  [key: string]: unknown;
+}
+
+export interface Rule {
+  id: string;
+  name?: string;
+  action?: RuleAction;
+  direction?: RuleDirection;
+  protocol?: RuleProtocol;
+  status?: RuleStatus;
+  target?: RuleTarget;
+  scope?: RuleScope;
+  schedule?: RuleSchedule;
+  gid?: string;
+  [key: string]: unknown;
+}
+
+export interface TargetList {
+  id: string;
+  name: string;
+  targets?: string[];
+  owner?: string;
+  category?: string;
+  notes?: string;
+  /** Epoch seconds */
+  lastUpdated?: number;
+  [key: string]: unknown;
+}
+
+/** One row of a top-N statistics report; which fields are set depends on the report type */
+export interface StatisticsEntry {
+  boxName?: string;
+  name?: string;
+  region?: string;
+  country?: string;
+  count?: number;
+  alarmCount?: number;
+  blockedFlows?: number;
+  topAlarmType?: string;
+  topBlockedDomain?: string;
+  topCategory?: string;
+  meta?: Record<string, unknown>;
+  value?: number;
+  [key: string]: unknown;
+}
+
+export interface SimpleStatistics {
+  onlineBoxes?: number;
+  offlineBoxes?: number;
+  alarms?: number;
+  rules?: number;
+  [key: string]: unknown;
+}
+
+/** One data point of a trend series; the counters present depend on the trend type */
+export interface TrendPoint {
+  /** Epoch seconds */
+  ts?: number;
+  timestamp?: number;
+  value?: number;
+  total?: number;
+  blocked?: number;
+  allowed?: number;
+  block?: number;
+  allow?: number;
+  upload?: number;
+  download?: number;
+  high?: number;
+  medium?: number;
+  low?: number;
+  active?: number;
+  paused?: number;
+  [key: string]: unknown;
+}
@@ -0,0 +1,380 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// Output schemas for structured tool results. Every tool returns the same envelope as the
+// json format: `{ response_type, metadata, data }`, with `data` described per tool below.
+// Fields of API records are documented but not typed: responses are passed through even
+// when they drift from the expected shape (see validation.ts), and a typed schema would make
+// clients reject those results outright.
+
+type JsonSchema = Record<string, unknown>;
+
+function record(description: string, fields: Record<string, string>): JsonSchema {
+  return {
+    type: "object",
+    description,
+    properties: Object.fromEntries(Object.entries(fields).map(([field, text]) => [field, { description: text }])),
+  };
+}
+
+// A page of results as normalized by the client; fetch-all responses add pages_fetched and truncated
+function list(item: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      count: { type: "number" },
+      results: { type: "array", items: item },
+      next_cursor: { type: ["string", "null"], description: "Pass as cursor to fetch the next page" },
+      pages_fetched: { type: "number" },
+      truncated: { type: "boolean" },
+    },
+    required: ["count", "results"],
+  };
+}
+
+const BOX = record("A Firewalla box", {
+  gid: "Box ID",
+  name: "Box name",
+  model: "Hardware model",
+  mode: "Network mode, e.g. router",
+  version: "Firmware version",
+  online: "Whether the box is connected",
+  lastSeen: "Last check-in as a Unix timestamp",
+  group: "Box group",
+  deviceCount: "Devices seen by the box",
+  ruleCount: "Rules on the box",
+  alarmCount: "Active alarms on the box",
+});
+
+// get_box: the box with counts joined from devices, alarms and rules; a count is null when its fetch failed
+const BOX_SUMMARY: JsonSchema = {
+  type: "object",
+  properties: {
+    box: BOX,
+    devices: {
+      type: ["object", "null"],
+      properties: { total: { type: "number" }, online: { type: "number" }, offline: { type: "number" } },
+    },
+    alarms: {
+      type: ["object", "null"],
+      properties: {
+        open: { type: "number", description: "Active alarms" },
+        by_type: { type: "object", description: "Active alarms per alarm type" },
+        truncated: { type: "boolean", description: "More alarms exist than were fetched" },
+      },
+    },
+    rules: {
+      type: ["object", "null"],
+      properties: { total: { type: "number" }, active: { type: "number" }, paused: { type: "number" } },
+    },
+  },
+  required: ["box", "devices", "alarms", "rules"],
+};
+
+const DEVICE = record("A device on a box's network", {
+  id: "Device ID, usually the MAC address",
+  gid: "ID of the box the device is on",
+  name: "Device name",
+  mac: "MAC address",
+  ip: "IP address",
+  online: "Whether the device is connected",
+  lastSeen: "Last activity as a Unix timestamp",
+  network: "Network the device is on",
+  totalDownload: "Bytes downloaded",
+  totalUpload: "Bytes uploaded",
+});
+
+const ALARM = record("A security alarm", {
+  gid: "ID of the box that raised the alarm",
+  aid: "Alarm ID, unique within the box",
+  ts: "Unix timestamp",
+  type: "Alarm type number",
+  alarmType: "Alarm type name",
+  message: "Description",
+  status: "active or archived",
+  device: "Device involved",
+  remote: "Remote host involved (domain, ip, country, region)",
+  transfer: "Bytes transferred (download, upload, total)",
+});
+
+const RULE = record("A firewall rule", {
+  id: "Rule ID",
+  name: "Rule name, generated from target and scope when the API has none",
+  action: "block, allow or time_limit",
+  direction: "bidirection, inbound or outbound",
+  status: "active or paused",
+  target: "What the rule matches (type and value)",
+  scope: "Where the rule applies (type and value)",
+  hit: "Match counters",
+  schedule: "Active schedule",
+});
+
+const FLOW = record("A network flow", {
+  ts: "Unix timestamp",
+  gid: "ID of the box that saw the flow",
+  protocol: "tcp or udp",
+  direction: "inbound or outbound",
+  block: "Whether the flow was blocked",
+  download: "Bytes downloaded",
+  upload: "Bytes uploaded",
+  duration: "Seconds",
+  count: "Connections merged into the flow",
+  device: "Local device",
+  source: "Source endpoint",
+  destination: "Destination endpoint",
+});
+
+const TARGET_LIST = record("A target list", {
+  id: "Target list ID",
+  name: "List name",
+  owner: "global or a box ID",
+  category: "Content category",
+  targets: "Domains, IPs and CIDR ranges",
+  notes: "Free-form notes",
+  lastUpdated: "Last change as a Unix timestamp",
+});
+
+const STATISTICS_ENTRY = record("One ranked statistics entry; the fields present depend on the statistics type", {
+  meta: "The box, region or domain being counted",
+  value: "Count",
+  name: "Box or domain name",
+  region: "Region code",
+  count: "Count, on older API versions",
+});
+
+const TREND_POINT = record("One point of a trend; the counters present depend on the trend type", {
+  ts: "Unix timestamp",
+  value: "Count at that time",
+  total: "Total count",
+  blocked: "Blocked flows",
+  allowed: "Allowed flows",
+});
+
+const SIMPLE_STATISTICS = record("Fleet-wide counters", {
+  onlineBoxes: "Boxes online",
+  offlineBoxes: "Boxes offline",
+  alarms: "Active alarms",
+  rules: "Rules",
+});
+
+const FLEET_HEALTH: JsonSchema = {
+  type: "object",
+  properties: {
+    summary: record("Fleet totals from the simple statistics; null where they could not be fetched", {
+      boxes: "Boxes checked",
+      online_boxes: "Boxes online",
+      offline_boxes: "Boxes offline",
+      alarms: "Active alarms",
+      rules: "Rules",
+      majority_version: "Firmware version most boxes run",
+      flagged_boxes: "Boxes with at least one issue",
+    }),
+    boxes: {
+      type: "array",
+      description: "Every box, most urgent first",
+      items: record("A box's health", {
+        rank: "1 for the most urgent box",
+        gid: "Box ID",
+        name: "Box name",
+        group: "Box group",
+        online: "Whether the box is connected",
+        lastSeen: "Last check-in as a Unix timestamp",
+        version: "Firmware version",
+        alarms_24h: "Alarms in the last 24 hours, null if alarms could not be searched",
+        alarms_daily_average: "Alarms per day over the 7 days before",
+        rules: "Rules on the box, null if unknown",
+        issues: "offline, alarm_spike, outdated_firmware and no_rules",
+        score: "Weighted issue score the ranking is based on",
+      }),
+    },
+  },
+  required: ["summary", "boxes"],
+};
+
+// What a mutating tool returns for dry_run: true
+const DRY_RUN: JsonSchema = {
+  type: "object",
+  properties: {
+    operation: { type: "string", enum: ["create", "update", "delete"] },
+    resource_type: { type: "string" },
+    resource_id: { description: "ID of the resource, null for creates" },
+    before: { description: "The resource as it is now, null for creates" },
+    after: { description: "The resource after the change, null for deletes" },
+    changes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { field: { type: "string" }, before: {}, after: {} },
+        required: ["field"],
+      },
+    },
+  },
+  required: ["operation", "resource_type", "changes"],
+};
+
+// What a delete, pause or resume returns once the write went through
+const WRITE: JsonSchema = {
+  type: "object",
+  properties: {
+    operation: { type: "string" },
+    resource_type: { type: "string" },
+    resource_id: { type: "string" },
+    change_id: { type: "string", description: "Pass to undo_change to revert" },
+  },
+  required: ["operation", "resource_type", "change_id"],
+};
+
+// Creates and updates return the API's response body, which may be empty
+const mutation = (result: JsonSchema): JsonSchema => ({ anyOf: [DRY_RUN, result, { type: "null" }] });
+
+const QUERY_TERMS = { type: "array", description: "Parsed query terms", items: { type: "object" } };
+
+const AUDIT_ENTRY = record("One audit log entry", {
+  change_id: "ID to pass to undo_change",
+  timestamp: "ISO time of the write",
+  tool: "Tool that made the write",
+  profile: "MSP profile the write ran against",
+  client: "MCP client that called the tool",
+  arguments: "Tool arguments",
+  resource_type: "rule, alarm or target_list",
+  resource_id: "ID of the changed resource",
+  http_status: "HTTP status of the write",
+  success: "Whether the write succeeded",
+  error: "Why the write failed",
+  snapshot_error: "Why the resource could not be read before the change",
+  before: "Snapshot of the resource before the change",
+  after: "The API's response to the write",
+  undoable: "Whether undo_change can revert the change",
+  undo_error: "Why undo_change would refuse",
+});
+
+const DATA_SCHEMAS: Record<string, JsonSchema> = {
+  list_boxes: list(BOX),
+  get_box: BOX_SUMMARY,
+  list_devices: list(DEVICE),
+  list_alarms: list(ALARM),
+  get_alarm: ALARM,
+  delete_alarm: { anyOf: [DRY_RUN, WRITE] },
+  list_rules: list(RULE),
+  pause_rule: { anyOf: [DRY_RUN, WRITE] },
+  resume_rule: { anyOf: [DRY_RUN, WRITE] },
+  create_rule: mutation(RULE),
+  update_rule: mutation(RULE),
+  delete_rule: { anyOf: [DRY_RUN, WRITE] },
+  list_flows: list(FLOW),
+  list_target_lists: list(TARGET_LIST),
+  get_target_list: TARGET_LIST,
+  create_target_list: mutation(TARGET_LIST),
+  update_target_list: mutation(TARGET_LIST),
+  delete_target_list: { anyOf: [DRY_RUN, WRITE] },
+  get_statistics: list(STATISTICS_ENTRY),
+  get_simple_statistics: SIMPLE_STATISTICS,
+  fleet_health: FLEET_HEALTH,
+  get_trends: list(TREND_POINT),
+  search_global: {
+    type: "object",
+    description: "Results per searched type; see metadata for each type's status and next cursor",
+    properties: {
+      devices: { type: "array", items: DEVICE },
+      alarms: { type: "array", items: ALARM },
+      flows: { type: "array", items: FLOW },
+      boxes: { type: "array", items: BOX },
+    },
+  },
+  search_devices: list(DEVICE),
+  search_alarms: list(ALARM),
+  search_flows: list(FLOW),
+  validate_query: {
+    type: "object",
+    properties: {
+      valid: { type: "boolean" },
+      normalized_query: { type: ["string", "null"] },
+      errors: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+            position: { type: "number", description: "Zero-based offset into the query" },
+            length: { type: "number" },
+            pointer: { type: "string", description: "The query with the problem underlined" },
+          },
+          required: ["message"],
+        },
+      },
+      terms: QUERY_TERMS,
+    },
+    required: ["valid", "errors"],
+  },
+  build_query: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      normalized_query: { type: "string" },
+      terms: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { filter: { type: "string" }, term: { type: "string" } },
+          required: ["filter", "term"],
+        },
+      },
+    },
+    required: ["query", "terms"],
+  },
+  list_profiles: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        domain: { type: "string" },
+        key_source: { type: "string" },
+        description: { type: ["string", "null"] },
+        default: { type: "boolean" },
+      },
+      required: ["name", "domain", "default"],
+    },
+  },
+  undo_change: {
+    anyOf: [DRY_RUN, {
+      type: "object",
+      properties: {
+        operation: { type: "string", enum: ["restore", "recreate", "delete"] },
+        resource_type: { type: "string" },
+        resource_id: {},
+        before: {},
+        after: {},
+      },
+      required: ["operation", "resource_type"],
+    }],
+  },
+  get_audit_log: { type: "array", items: AUDIT_ENTRY },
+  export_results: {
+    type: "object",
+    properties: {
+      path: { type: "string", description: "Absolute path of the written file" },
+      file_format: { type: "string", enum: ["csv", "ndjson"] },
+      row_count: { type: "number" },
+      columns: { type: "array", items: { type: "string" } },
+    },
+    required: ["path", "file_format", "row_count", "columns"],
+  },
+};
+
+/** The structured result schema for a tool, or undefined when it has none */
+export function outputSchemaFor(toolName: string): Tool["outputSchema"] {
+  const data = DATA_SCHEMAS[toolName];
+  if (!data) return undefined;
+  return {
+    type: "object",
+    properties: {
+      response_type: { type: "string", const: toolName },
+      metadata: {
+        type: "object",
+        description: "Request parameters, pagination, time range, cache and schema warnings; the same fields as the text response",
+      },
+      data,
+    },
+    required: ["response_type", "metadata", "data"],
+  };
+}
@@ -0,0 +1,259 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Define prompts for formatting guidance
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: [
+        {
+          name: "format_devices",
+          description: "Formatting guide for presenting device information",
+        },
+        {
+          name: "format_alarms",
+          description: "Formatting guide for presenting alarm information",
+        },
+        {
+          name: "format_flows",
+          description: "Formatting guide for presenting network flow information",
+        },
+        {
+          name: "format_rules",
+          description: "Formatting guide for presenting security rules",
+        },
+        {
+          name: "format_boxes",
+          description: "Formatting guide for presenting Firewalla box information",
+        },
+        {
+          name: "format_statistics",
+          description: "Formatting guide for presenting statistics and trends",
+        },
+        {
+          name: "format_target_lists",
+          description: "Formatting guide for presenting target lists",
+        },
+        {
+          name: "format_search_results",
+          description: "Formatting guide for presenting search results across multiple types",
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name } = request.params;
+
+    const formatGuides: Record<string, { description: string; prompt: string }> = {
+      format_devices: {
+        description: "How to format device information",
+        prompt: `When displaying Firewalla device information, use this format:
+
+📱 **Device Name** | IP: \`{ipAddress}\` | MAC: \`{mac}\`
+   ├─ Type: {type}
+   ├─ Status: {online/offline}
+   ├─ Box: {box.name}
+   └─ Last Seen: {lastActiveTime}
+
+Include these key fields:
+- Device name (bold)
+- IP address (in code blocks)
+- MAC address (in code blocks)
+- Device type
+- Online/offline status
+- Associated box name
+- Last active time
+
+For lists, separate each device with a blank line.
+Group by network/box if more than 10 devices.`,
+      },
+
+      format_alarms: {
+        description: "How to format alarm information",
+        prompt: `When displaying Firewalla alarm information, use this format:
+
+🚨 **{severity} Alert** | {timestamp}
+   ├─ Type: {alarmType}
+   ├─ Device: {device.name} (\`{device.ip}\`)
+   ├─ Remote: {remote.domain || remote.ip} ({remote.country})
+   ├─ Transfer: ↓{download} ↑{upload} Total: {total}
+   └─ Status: {status}
+
+Include these key fields:
+- Severity level (with appropriate emoji)
+- Timestamp (human-readable)
+- Alarm type description
+- Device name and IP
+- Remote destination (domain/IP and country)
+- Data transfer amounts (formatted with units)
+- Current status
+
+Group alarms by severity or time period if many results.`,
+      },
+
+      format_flows: {
+        description: "How to format network flow information",
+        prompt: `When displaying Firewalla network flow information, use this format:
+
+🌐 **{device.name}** → {remote.domain || remote.ip}
+   ├─ Direction: {inbound/outbound}
+   ├─ Protocol: {protocol} | Ports: {sport}→{dport}
+   ├─ Transfer: ↓{download} ↑{upload} Total: {total}
+   ├─ Category: {category}
+   └─ Time: {timestamp} | Duration: {duration}
+
+Include these key fields:
+- Source device name
+- Destination (domain preferred over IP)
+- Direction and protocol
+- Port information
+- Data transfer (with proper units)
+- Category classification
+- Timestamp and duration
+
+Sort by transfer amount or recency by default.`,
+      },
+
+      format_rules: {
+        description: "How to format security rules",
+        prompt: `When displaying Firewalla security rules, use this format:
+
+🛡️ **{rule.name}** | Status: {active/paused}
+   ├─ Action: {allow/block} {direction} {protocol}
+   ├─ Target: {target.type}: {target.value}
+   ├─ Scope: {scope.type}: {scope.value} Port: {port}
+   └─ Schedule: {schedule info if applicable}
+
+Include these key fields:
+- Rule name (bold)
+- Current status
+- Action, direction, and protocol
+- Target specification
+- Scope details
+- Schedule (if time-limited)
+
+Group by action type (allow/block) if many rules.`,
+      },
+
+      format_boxes: {
+        description: "How to format Firewalla box information",
+        prompt: `When displaying Firewalla box information, use this format:
+
+📦 **{box.name}** | Model: {model}
+   ├─ Status: {online/offline} | Version: {version}
+   ├─ Group: {group.name}
+   ├─ Devices: {deviceCount} active
+   ├─ Network: {network.name} ({network.subnet})
+   └─ Last Sync: {lastSync}
+
+Include these key fields:
+- Box name (bold)
+- Model type
+- Online status and firmware version
+- Group membership
+- Active device count
+- Network configuration
+- Last sync time
+
+List boxes in a table format if more than 5.`,
+      },
+
+      format_statistics: {
+        description: "How to format statistics information",
+        prompt: `When displaying Firewalla statistics, use this format:
+
+📊 **Statistics Report** | Period: {timeRange}
+════════════════════════════════════════
+
+Top Boxes by Security Alarms:
+1. 📦 {box.name} - {alarmCount} alarms
+   └─ Most common: {topAlarmType}
+
+Top Boxes by Blocked Flows:
+1. 🚫 {box.name} - {blockedCount} blocked
+   └─ Top blocked: {topBlockedDomain}
+
+Top Regions by Blocked Flows:
+1. 🌍 {region} - {blockedCount} blocks
+   └─ Top category: {topCategory}
+
+Summary:
+- Total Boxes: {boxCount}
+- Active Alarms: {activeAlarmCount}
+- Total Rules: {ruleCount}
+- Blocked Today: {blockedToday}`,
+      },
+
+      format_target_lists: {
+        description: "How to format target lists",
+        prompt: `When displaying Firewalla target lists, use this format:
+
+📋 **{list.name}** | Owner: {owner}
+   ├─ Category: {category}
+   ├─ Entries: {targetCount} items
+   ├─ Notes: {notes}
+   └─ Targets:
+      • {target1}
+      • {target2}
+      • {target3}
+      {... show first 5, then "and X more"}
+
+For multiple lists, show in a summary table:
+┌─────────────────┬──────────┬─────────┬────────┐
+│ List Name       │ Category │ Entries │ Owner  │
+├─────────────────┼──────────┼─────────┼────────┤
+│ {name}          │ {cat}    │ {count} │ {owner}│
+└─────────────────┴──────────┴─────────┴────────┘`,
+      },
+
+      format_search_results: {
+        description: "How to format global search results",
+        prompt: `When displaying search results across multiple types, use this format:
+
+🔍 **Search Results for: "{query}"**
+════════════════════════════════════════
+
+📱 Devices ({deviceCount} found):
+{format first 3 devices using device format}
+{... and X more}
+
+🚨 Alarms ({alarmCount} found):
+{format first 3 alarms using alarm format}
+{... and X more}
+
+🌐 Flows ({flowCount} found):
+{format first 3 flows using flow format}
+{... and X more}
+
+📦 Boxes ({boxCount} found):
+{format matching boxes}
+
+Summary: {totalCount} total results across {typeCount} categories`,
+      },
+    };
+
+    const guide = formatGuides[name];
+    if (!guide) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown prompt: ${name}`);
+    }
+
+    return {
+      description: guide.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: guide.prompt,
+          },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,180 @@
+// Compiles structured filters such as `{ device: "*iphone*", since: "-1h", minDownload: "10MB" }`
+// into Firewalla query syntax. Each term is checked with the query parser, so problems are
+// reported against the filter that produced them rather than a position in the compiled string.
+
+import { QueryOptions, validateQuery } from "./query.js";
+import { BOX_ID_PATTERN, MAC_PATTERN } from "./resolver.js";
+
+export type BuildableEntity = "alarms" | "flows";
+
+export const BUILDABLE_ENTITIES: BuildableEntity[] = ["alarms", "flows"];
+
+/** Filters that select by equality; each can also be excluded */
+export interface MatchFilters {
+  /** Free text, matched across fields */
+  text?: string;
+  /** Box name (wildcards allowed) or box ID */
+  box?: string;
+  boxGroup?: string;
+  /** Device name (wildcards allowed) or MAC address */
+  device?: string;
+  status?: string;
+  /** Alarm type number (alarms only) */
+  type?: number;
+  category?: string;
+  domain?: string;
+  region?: string;
+  /** inbound or outbound (flows only) */
+  direction?: string;
+  /** tcp or udp (flows only) */
+  protocol?: string;
+  /** Source port (flows only) */
+  sport?: number;
+  /** Destination port (flows only) */
+  dport?: number;
+}
+
+export interface QueryFilters extends MatchFilters {
+  /** Start of the time window: a timestamp, relative time (-1h), today, yesterday or ISO date */
+  since?: string;
+  /** End of the time window, in the same forms as `since` */
+  until?: string;
+  /** Sizes such as 500KB or 1.5MB */
+  minDownload?: string;
+  maxDownload?: string;
+  minUpload?: string;
+  maxUpload?: string;
+  minTotal?: string;
+  maxTotal?: string;
+  exclude?: MatchFilters;
+}
+
+export interface BuiltTerm {
+  filter: string;
+  term: string;
+}
+
+export interface BuiltQuery {
+  /** The compiled query; empty when no filters were given */
+  query: string;
+  terms: BuiltTerm[];
+  /** One `filter: problem` line per invalid filter */
+  errors: string[];
+}
+
+type Qualifiers = Partial<Record<BuildableEntity, string>>;
+
+const BOTH = (qualifier: string): Qualifiers => ({ alarms: qualifier, flows: qualifier });
+
+const MATCH_QUALIFIERS: Record<Exclude<keyof MatchFilters, "text" | "box" | "device">, Qualifiers> = {
+  boxGroup: BOTH("box.group.id"),
+  status: BOTH("status"),
+  type: { alarms: "type" },
+  category: { alarms: "remote.category", flows: "category" },
+  domain: { alarms: "remote.domain", flows: "domain" },
+  region: { alarms: "remote.region", flows: "region" },
+  direction: { flows: "direction" },
+  protocol: { flows: "protocol" },
+  sport: { flows: "sport" },
+  dport: { flows: "dport" },
+};
+
+const SIZE_QUALIFIERS: Record<"Download" | "Upload" | "Total", Qualifiers> = {
+  Download: { alarms: "transfer.download", flows: "download" },
+  Upload: { alarms: "transfer.upload", flows: "upload" },
+  Total: { alarms: "transfer.total", flows: "total" },
+};
+
+const MATCH_FILTERS = ["text", "box", "device", ...Object.keys(MATCH_QUALIFIERS)];
+const FILTERS = new Set([
+  ...MATCH_FILTERS,
+  "since",
+  "until",
+  ...Object.keys(SIZE_QUALIFIERS).flatMap((size) => [`min${size}`, `max${size}`]),
+  "exclude",
+]);
+
+function formatValue(value: unknown): string {
+  const text = String(value);
+  return /\s/.test(text) ? `"${text}"` : text;
+}
+
+// The qualified term for one equality filter, or an error message
+function matchTerm(entity: BuildableEntity, filter: string, value: unknown): string {
+  switch (filter) {
+    case "text":
+      return formatValue(value);
+    case "box":
+      return `${BOX_ID_PATTERN.test(String(value)) ? "box.id" : "box.name"}:${formatValue(value)}`;
+    case "device":
+      return MAC_PATTERN.test(String(value))
+        ? `device.id:${String(value).toUpperCase()}`
+        : `device.name:${formatValue(value)}`;
+  }
+
+  const qualifier = MATCH_QUALIFIERS[filter as keyof typeof MATCH_QUALIFIERS][entity];
+  if (!qualifier) {
+    throw new Error(`not available for ${entity}`);
+  }
+  return `${qualifier}:${formatValue(value)}`;
+}
+
+/**
+ * Compile structured filters into a query for `entity`.
+ * Never throws; invalid or unknown filters are returned as errors.
+ */
+export function buildQuery(entity: BuildableEntity, filters: QueryFilters, options: QueryOptions = {}): BuiltQuery {
+  const terms: BuiltTerm[] = [];
+  const errors: string[] = [];
+
+  const add = (filter: string, term: () => string) => {
+    try {
+      const compiled = term();
+      const result = validateQuery(compiled, entity, options);
+      if (!result.valid) {
+        errors.push(`${filter}: ${result.errors[0].message}`);
+        return;
+      }
+      terms.push({ filter, term: compiled });
+    } catch (error) {
+      errors.push(`${filter}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+  const present = (value: unknown) => value !== undefined && value !== null && value !== "";
+
+  Object.keys(filters).filter((filter) => !FILTERS.has(filter)).forEach((filter) => {
+    errors.push(`${filter}: unknown filter`);
+  });
+
+  MATCH_FILTERS.forEach((filter) => {
+    const value = filters[filter as keyof MatchFilters];
+    if (present(value)) add(filter, () => matchTerm(entity, filter, value));
+  });
+
+  if (present(filters.since)) add("since", () => `ts:>=${filters.since}`);
+  if (present(filters.until)) add("until", () => `ts:<=${filters.until}`);
+
+  (Object.keys(SIZE_QUALIFIERS) as (keyof typeof SIZE_QUALIFIERS)[]).forEach((size) => {
+    const qualifier = SIZE_QUALIFIERS[size][entity]!;
+    const min = filters[`min${size}`];
+    const max = filters[`max${size}`];
+    if (present(min) && present(max)) {
+      add(`min${size}/max${size}`, () => `${qualifier}:${min}-${max}`);
+    } else if (present(min)) {
+      add(`min${size}`, () => `${qualifier}:>=${min}`);
+    } else if (present(max)) {
+      add(`max${size}`, () => `${qualifier}:<=${max}`);
+    }
+  });
+
+  const exclude = filters.exclude || {};
+  Object.keys(exclude).filter((filter) => !MATCH_FILTERS.includes(filter)).forEach((filter) => {
+    errors.push(`exclude.${filter}: only ${MATCH_FILTERS.join(", ")} can be excluded`);
+  });
+  MATCH_FILTERS.forEach((filter) => {
+    const value = exclude[filter as keyof MatchFilters];
+    if (present(value)) add(`exclude.${filter}`, () => `-${matchTerm(entity, filter, value)}`);
+  });
+
+  return { query: terms.map((term) => term.term).join(" "), terms, errors };
+}
@@ -0,0 +1,472 @@
+// Parser and validator for the Firewalla MSP search syntax:
+//   free text, "quoted text", key:value, key:"quoted value", wildcards (*),
+//   exclusions (-key:value), comparisons (key:>1MB), ranges (key:100KB-1MB)
+// Queries are validated per entity type and rewritten with units and relative times
+// normalized, so mistakes are reported with positions before the API sees them.
+
+import { dayBounds, DEFAULT_TIME_ZONE, zonedDate, zonedTimeToEpoch } from "./time.js";
+
+export type QueryEntity = "alarms" | "flows" | "devices" | "rules" | "boxes";
+
+export const QUERY_ENTITIES: QueryEntity[] = ["alarms", "flows", "devices", "rules", "boxes"];
+
+/** How a qualifier's value is interpreted */
+export type QualifierKind = "string" | "number" | "bytes" | "time";
+
+const BOX_QUALIFIERS: Record<string, QualifierKind> = {
+  "box.id": "string",
+  "box.name": "string",
+  "box.group.id": "string",
+};
+
+const DEVICE_QUALIFIERS: Record<string, QualifierKind> = {
+  "device.id": "string",
+  "device.name": "string",
+};
+
+export const QUALIFIERS: Record<QueryEntity, Record<string, QualifierKind>> = {
+  alarms: {
+    ts: "time",
+    type: "number",
+    status: "string",
+    box: "string",
+    ...BOX_QUALIFIERS,
+    ...DEVICE_QUALIFIERS,
+    "remote.category": "string",
+    "remote.domain": "string",
+    "remote.region": "string",
+    "transfer.download": "bytes",
+    "transfer.upload": "bytes",
+    "transfer.total": "bytes",
+  },
+  flows: {
+    ts: "time",
+    status: "string",
+    direction: "string",
+    protocol: "string",
+    ...BOX_QUALIFIERS,
+    ...DEVICE_QUALIFIERS,
+    category: "string",
+    domain: "string",
+    region: "string",
+    sport: "number",
+    dport: "number",
+    download: "bytes",
+    upload: "bytes",
+    total: "bytes",
+  },
+  devices: {
+    ...DEVICE_QUALIFIERS,
+    ...BOX_QUALIFIERS,
+  },
+  rules: {
+    status: "string",
+    action: "string",
+    "box.id": "string",
+    "box.group.id": "string",
+    "device.id": "string",
+  },
+  boxes: {
+    ...BOX_QUALIFIERS,
+  },
+};
+
+// Every qualifier name, lowercased, and the shape of names like box.group.id
+const QUALIFIER_NAMES = new Set(QUERY_ENTITIES.flatMap((entity) => Object.keys(QUALIFIERS[entity])).map((key) => key.toLowerCase()));
+const DOTTED_NAME = /^[a-z_]+(\.[a-z_]+)+$/i;
+
+export type ComparisonOperator = ">" | ">=" | "<" | "<=";
+
+export type QueryValue =
+  | { kind: "match"; value: string; quoted: boolean; wildcard: boolean }
+  | { kind: "number"; value: number; raw: string }
+  | { kind: "comparison"; operator: ComparisonOperator; value: number; raw: string }
+  | { kind: "range"; from: number; to: number; raw: string };
+
+export type QueryNode =
+  | { type: "text"; value: string; quoted: boolean; negated: boolean; start: number; end: number }
+  | { type: "qualifier"; key: string; value: QueryValue; negated: boolean; start: number; end: number };
+
+export interface QueryError {
+  message: string;
+  /** Zero-based offset into the query string */
+  position: number;
+  length: number;
+}
+
+export interface QueryValidation {
+  valid: boolean;
+  nodes: QueryNode[];
+  errors: QueryError[];
+  /** The query with units and relative times resolved; only meaningful when valid */
+  normalized: string;
+}
+
+export interface QueryOptions {
+  /** Reference time for relative expressions, in epoch milliseconds (default: now) */
+  now?: number;
+  /** IANA time zone for `today`, `yesterday` and ISO times without an offset (default: the system zone) */
+  timeZone?: string;
+}
+
+interface ParseContext {
+  now: number;
+  timeZone: string;
+}
+
+// Decimal units, as documented by Firewalla
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+};
+
+const DURATION_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+const BYTES_PATTERN = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i;
+const RELATIVE_TIME_PATTERN = /^-(\d+)(s|m|h|d|w)$/i;
+const ISO_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME_FORMS = "a Unix timestamp in seconds, a relative time such as -24h, now, today, yesterday, or an ISO date/time such as 2026-10-01 or 2026-10-01T08:00";
+
+/** A resolved time expression: a single instant, or a whole calendar day */
+interface TimeSpan {
+  from: number;
+  to: number;
+  relative: boolean;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+class QueryParseError extends Error {
+  constructor(message: string, readonly position: number, readonly length: number) {
+    super(message);
+  }
+}
+
+// Split on whitespace outside double quotes
+function tokenize(query: string): { tokens: Token[]; errors: QueryError[] } {
+  const tokens: Token[] = [];
+  const errors: QueryError[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let openQuote = -1;
+    while (index < query.length && (openQuote >= 0 || !/\s/.test(query[index]))) {
+      if (query[index] === '"') openQuote = openQuote >= 0 ? -1 : index;
+      index++;
+    }
+
+    if (openQuote >= 0) {
+      errors.push({ message: "Unterminated quote", position: openQuote, length: query.length - openQuote });
+    }
+    tokens.push({ text: query.slice(start, index), start, end: index });
+  }
+
+  return { tokens, errors };
+}
+
+function unquote(text: string): { value: string; quoted: boolean } {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return { value: text.slice(1, -1), quoted: true };
+  }
+  return { value: text, quoted: false };
+}
+
+// Resolve a time expression to epoch seconds; days cover their first to last second
+function parseTime(text: string, position: number, ctx: ParseContext): TimeSpan {
+  const nowSeconds = Math.floor(ctx.now / 1000);
+  const lower = text.toLowerCase();
+
+  const relative = RELATIVE_TIME_PATTERN.exec(text);
+  if (relative) {
+    const at = nowSeconds - Number(relative[1]) * DURATION_SECONDS[relative[2].toLowerCase()];
+    return { from: at, to: at, relative: true };
+  }
+  if (/^\d+$/.test(text)) {
+    return { from: Number(text), to: Number(text), relative: false };
+  }
+  if (lower === "now") {
+    return { from: nowSeconds, to: nowSeconds, relative: true };
+  }
+  if (lower === "today" || lower === "yesterday") {
+    const date = zonedDate(ctx.now, ctx.timeZone);
+    return { ...dayBounds({ ...date, day: date.day - (lower === "yesterday" ? 1 : 0) }, ctx.timeZone), relative: true };
+  }
+
+  const iso = ISO_TIME_PATTERN.exec(text);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, offset] = iso;
+    const date = { year: Number(year), month: Number(month), day: Number(day) };
+    // Day 0 of the next month is the last day of this one, so February 30 is caught too
+    const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+    if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > daysInMonth) {
+      throw new QueryParseError(`Invalid date "${text}"`, position, text.length);
+    }
+    if (hour === undefined) {
+      return { ...dayBounds(date, ctx.timeZone), relative: false };
+    }
+
+    const time = { ...date, hour: Number(hour), minute: Number(minute), second: Number(second || 0) };
+    if (time.hour > 23 || time.minute > 59 || time.second > 59) {
+      throw new QueryParseError(`Invalid date "${text}"`, position, text.length);
+    }
+    const epochMs = offset
+      ? Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second || "00"}${offset.length === 5 ? `${offset.slice(0, 3)}:${offset.slice(3)}` : offset.toUpperCase()}`)
+      : zonedTimeToEpoch(time, ctx.timeZone);
+    if (Number.isNaN(epochMs)) {
+      throw new QueryParseError(`Invalid date "${text}"`, position, text.length);
+    }
+    const at = Math.floor(epochMs / 1000);
+    return { from: at, to: at, relative: false };
+  }
+
+  throw new QueryParseError(`Expected ${TIME_FORMS}, got "${text}"`, position, text.length);
+}
+
+// Resolve a numeric operand for a bytes or number qualifier
+function parseOperand(kind: QualifierKind, text: string, position: number): number {
+  if (kind === "bytes") {
+    const match = BYTES_PATTERN.exec(text);
+    if (!match) {
+      throw new QueryParseError(`Expected a size such as 500KB or 1.5MB, got "${text}"`, position, text.length);
+    }
+    return Math.round(Number(match[1]) * BYTE_UNITS[(match[2] || "b").toLowerCase()]);
+  }
+
+  if (!NUMBER_PATTERN.test(text)) {
+    throw new QueryParseError(`Expected a number, got "${text}"`, position, text.length);
+  }
+  return Number(text);
+}
+
+function parseRange(kind: QualifierKind, text: string, separator: number, separatorLength: number, position: number, ctx: ParseContext): QueryValue {
+  const fromText = text.slice(0, separator);
+  const toText = text.slice(separator + separatorLength);
+  if (!fromText) {
+    throw new QueryParseError("Missing start of range", position, separatorLength);
+  }
+  if (!toText) {
+    throw new QueryParseError("Missing end of range", position + separator, separatorLength);
+  }
+
+  const toPosition = position + separator + separatorLength;
+  const from = kind === "time" ? parseTime(fromText, position, ctx).from : parseOperand(kind, fromText, position);
+  const to = kind === "time" ? parseTime(toText, toPosition, ctx).to : parseOperand(kind, toText, toPosition);
+  if (from > to) {
+    throw new QueryParseError(`Range start ${fromText} is after range end ${toText}`, position, text.length);
+  }
+  return { kind: "range", from, to, raw: text };
+}
+
+function parseValue(kind: QualifierKind, text: string, position: number, ctx: ParseContext): QueryValue {
+  if (text === "") {
+    throw new QueryParseError("Missing value after ':'", position, 1);
+  }
+
+  if (kind === "string") {
+    const { value, quoted } = unquote(text);
+    if (value.includes('"')) {
+      throw new QueryParseError("Unexpected quote inside value", position + text.indexOf('"', quoted ? 1 : 0), 1);
+    }
+    return { kind: "match", value, quoted, wildcard: !quoted && value.includes("*") };
+  }
+
+  const comparison = /^(>=|<=|>|<)(.*)$/.exec(text);
+  if (comparison) {
+    const operator = comparison[1] as ComparisonOperator;
+    const operandPosition = position + operator.length;
+    if (!comparison[2]) {
+      throw new QueryParseError(`Missing value after '${operator}'`, operandPosition - 1, 1);
+    }
+    if (kind !== "time") {
+      return { kind: "comparison", operator, value: parseOperand(kind, comparison[2], operandPosition), raw: text };
+    }
+
+    // A day compares as a unit: >today means after today ends, >=today from the moment it starts
+    const span = parseTime(comparison[2], operandPosition, ctx);
+    const value = operator === ">" || operator === "<=" ? span.to : span.from;
+    return { kind: "comparison", operator, value, raw: text };
+  }
+
+  // `start..end` works for every numeric kind; `start-end` only where values cannot contain '-'
+  const dots = text.indexOf("..");
+  if (dots >= 0) {
+    return parseRange(kind, text, dots, 2, position, ctx);
+  }
+
+  // A range separator is a '-' that does not start an operand (operands may be relative times like -24h)
+  const separator = text.indexOf("-", 1);
+  const rangeSeparator = separator > 0 && text[separator - 1] !== "-" ? separator : -1;
+  if (rangeSeparator > 0 && !(kind === "time" && ISO_TIME_PATTERN.test(text))) {
+    return parseRange(kind, text, rangeSeparator, 1, position, ctx);
+  }
+
+  if (kind !== "time") {
+    return { kind: "number", value: parseOperand(kind, text, position), raw: text };
+  }
+
+  const span = parseTime(text, position, ctx);
+  if (span.from !== span.to) {
+    return { kind: "range", from: span.from, to: span.to, raw: text };
+  }
+  if (span.relative) {
+    throw new QueryParseError(`A relative time needs a comparison, e.g. ts:>${text}`, position, text.length);
+  }
+  return { kind: "number", value: span.from, raw: text };
+}
+
+function parseToken(token: Token, qualifiers: Record<string, QualifierKind>, entity: string, ctx: ParseContext): QueryNode {
+  const negated = token.text.length > 1 && token.text.startsWith("-");
+  const body = negated ? token.text.slice(1) : token.text;
+  const bodyStart = token.start + (negated ? 1 : 0);
+
+  // A colon inside quotes is part of free text, not a qualifier; so is one after text that
+  // does not look like a qualifier name, as in MAC addresses, IPv6 addresses and URLs
+  let colon = body.startsWith('"') ? -1 : body.indexOf(":");
+  const name = body.slice(0, colon);
+  if (colon >= 0 && !QUALIFIER_NAMES.has(name.toLowerCase()) && !DOTTED_NAME.test(name)) colon = -1;
+  if (colon < 0) {
+    const { value, quoted } = unquote(body);
+    if (value.includes('"')) {
+      throw new QueryParseError("Unexpected quote in search text", bodyStart + body.indexOf('"', quoted ? 1 : 0), 1);
+    }
+    return { type: "text", value, quoted, negated, start: token.start, end: token.end };
+  }
+
+  const key = body.slice(0, colon);
+  const kind = qualifiers[key];
+  if (!kind) {
+    const known = Object.keys(qualifiers);
+    const suggestion = known.find((candidate) => candidate.toLowerCase() === key.toLowerCase() || candidate.endsWith(`.${key}`));
+    throw new QueryParseError(
+      `Unknown qualifier "${key}" for ${entity}.${suggestion ? ` Did you mean "${suggestion}"?` : ""} Supported: ${known.join(", ")}`,
+      bodyStart,
+      key.length
+    );
+  }
+
+  const value = parseValue(kind, body.slice(colon + 1), bodyStart + colon + 1, ctx);
+  return { type: "qualifier", key, value, negated, start: token.start, end: token.end };
+}
+
+function formatText(value: string, quoted: boolean): string {
+  return quoted || /\s/.test(value) ? `"${value}"` : value;
+}
+
+/** Render a parsed query back to the API syntax, with sizes in bytes and times in epoch seconds */
+export function formatQuery(nodes: QueryNode[]): string {
+  return nodes.map((node) => {
+    const prefix = node.negated ? "-" : "";
+    if (node.type === "text") {
+      return `${prefix}${formatText(node.value, node.quoted)}`;
+    }
+
+    const value = node.value;
+    switch (value.kind) {
+      case "match":
+        return `${prefix}${node.key}:${formatText(value.value, value.quoted)}`;
+      case "number":
+        return `${prefix}${node.key}:${value.value}`;
+      case "comparison":
+        return `${prefix}${node.key}:${value.operator}${value.value}`;
+      case "range":
+        return `${prefix}${node.key}:${value.from}-${value.to}`;
+    }
+  }).join(" ");
+}
+
+/**
+ * Parse and validate a query for one entity type, or for any searchable type when `entity` is omitted.
+ * Never throws; problems are returned as errors with positions.
+ */
+export function validateQuery(query: string, entity?: QueryEntity, options: QueryOptions = {}): QueryValidation {
+  const ctx = { now: options.now ?? Date.now(), timeZone: options.timeZone || DEFAULT_TIME_ZONE };
+  const qualifiers = entity
+    ? QUALIFIERS[entity]
+    : Object.assign({}, ...QUERY_ENTITIES.map((type) => QUALIFIERS[type])) as Record<string, QualifierKind>;
+  const { tokens, errors } = tokenize(query);
+  const nodes: QueryNode[] = [];
+
+  tokens.forEach((token) => {
+    try {
+      nodes.push(parseToken(token, qualifiers, entity || "search", ctx));
+    } catch (error) {
+      if (!(error instanceof QueryParseError)) throw error;
+      // An unterminated quote has already been reported for this token
+      if (!errors.some((existing) => existing.position >= token.start && existing.position < token.end)) {
+        errors.push({ message: error.message, position: error.position, length: error.length });
+      }
+    }
+  });
+
+  errors.sort((a, b) => a.position - b.position);
+  return {
+    valid: errors.length === 0,
+    nodes,
+    errors,
+    normalized: errors.length === 0 ? formatQuery(nodes) : query,
+  };
+}
+
+/**
+ * The time window selected by the query's `ts` terms, in epoch seconds.
+ * Null when the query does not constrain time; an open end is null.
+ */
+export function resolveTimeRange(nodes: QueryNode[]): { from: number | null; to: number | null } | null {
+  let from: number | null = null;
+  let to: number | null = null;
+  let constrained = false;
+  const narrowFrom = (value: number) => { from = from === null ? value : Math.max(from, value); };
+  const narrowTo = (value: number) => { to = to === null ? value : Math.min(to, value); };
+
+  nodes.forEach((node) => {
+    if (node.type !== "qualifier" || node.key !== "ts" || node.negated) return;
+    constrained = true;
+
+    const value = node.value;
+    switch (value.kind) {
+      case "number":
+        narrowFrom(value.value);
+        narrowTo(value.value);
+        break;
+      case "range":
+        narrowFrom(value.from);
+        narrowTo(value.to);
+        break;
+      case "comparison":
+        if (value.operator === ">") narrowFrom(value.value + 1);
+        if (value.operator === ">=") narrowFrom(value.value);
+        if (value.operator === "<") narrowTo(value.value - 1);
+        if (value.operator === "<=") narrowTo(value.value);
+        break;
+    }
+  });
+
+  return constrained ? { from, to } : null;
+}
+
+/** Point at each error under the query, one caret line per error */
+export function describeQueryErrors(query: string, errors: QueryError[]): string {
+  return errors.map((error) =>
+    `${error.message} (at position ${error.position})\n  ${query}\n  ${" ".repeat(error.position)}${"^".repeat(Math.max(1, error.length))}`
+  ).join("\n");
+}
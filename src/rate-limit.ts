@@ -0,0 +1,122 @@
+// Client-side throttling for the MSP API: a token bucket caps the request rate and a
+// semaphore caps requests in flight. A 429 pauses everything queued behind it.
+
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+export const DEFAULT_BURST = 20;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 5;
+
+export interface RequestLimiterOptions {
+  /** Sustained request rate; 0 disables rate limiting (default: 10) */
+  requestsPerSecond?: number;
+  /** Requests allowed back to back before the rate applies (default: 20) */
+  burst?: number;
+  /** Requests in flight at once; 0 disables the limit (default: 5) */
+  maxConcurrent?: number;
+  debugLog?: (message: string) => void;
+}
+
+interface Waiter {
+  label: string;
+  resolve: (release: () => void) => void;
+}
+
+export class RequestLimiter {
+  readonly requestsPerSecond: number;
+  readonly burst: number;
+  readonly maxConcurrent: number;
+  private readonly log: (message: string) => void;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private inFlight = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestLimiterOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    this.burst = Math.max(1, options.burst ?? DEFAULT_BURST);
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+    this.log = options.debugLog || (() => {});
+    this.tokens = this.burst;
+  }
+
+  /** Requests waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait for a slot; resolves to a function that must be called once the request finishes.
+   * `label` (e.g. `GET /alarms`) only appears in debug logs.
+   */
+  acquire(label: string): Promise<() => void> {
+    return new Promise((resolve) => {
+      const waiter = { label, resolve };
+      this.queue.push(waiter);
+      this.drain();
+      if (this.queue.includes(waiter)) {
+        this.log(`${label} queued (${this.queue.length} waiting, ${this.inFlight} in flight)`);
+      }
+    });
+  }
+
+  /** Hold every request for `ms`, e.g. after the API answered 429 */
+  backOff(ms: number): void {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) return;
+    this.pausedUntil = until;
+    // Restart from an empty bucket once the pause ends rather than bursting
+    this.tokens = 0;
+    this.refilledAt = until;
+    this.log(`rate limited by the API, pausing requests for ${ms}ms`);
+    this.schedule(ms);
+  }
+
+  private refill(now: number): void {
+    if (this.requestsPerSecond <= 0) {
+      this.tokens = this.burst;
+      return;
+    }
+    if (now <= this.refilledAt) return;
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.refilledAt = now;
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    this.refill(now);
+
+    while (this.queue.length > 0) {
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+      // A finished request calls drain() again, so no timer is needed here
+      if (this.maxConcurrent > 0 && this.inFlight >= this.maxConcurrent) return;
+      if (this.tokens < 1) {
+        this.schedule(Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000));
+        return;
+      }
+
+      this.tokens -= 1;
+      this.inFlight++;
+      const waiter = this.queue.shift()!;
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+
+  private schedule(ms: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, ms);
+  }
+}
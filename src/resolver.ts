@@ -0,0 +1,204 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FirewallaMspClient } from "./client.js";
+import { Box, Device } from "./models.js";
+import { QueryNode } from "./query.js";
+
+// Lets tools take box names, device names, MACs or IPs wherever the API wants an ID.
+// /boxes and /devices are fetched once per cache period and matched locally.
+
+/** How long fetched boxes and devices are reused for name lookups */
+export const RESOLVER_CACHE_TTL = 5 * 60 * 1000;
+
+/** Box GIDs are UUIDs */
+export const BOX_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Device IDs are colon-separated MAC addresses */
+export const MAC_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/i;
+const IP_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$|^[0-9a-f:]*:[0-9a-f:]*$/i;
+const MAX_CANDIDATES = 10;
+
+export interface ResolveCandidate {
+  id: string;
+  name: string;
+  score: number;
+  /** Why the candidate matched, e.g. `name starts with "office"` */
+  reason: string;
+}
+
+/** A query value that was replaced with an ID, e.g. `box.id:Office → 1b2c…` */
+export interface ResolvedReference {
+  key: string;
+  reference: string;
+  id: string;
+}
+
+function matchName(name: string | undefined, reference: string): { score: number; reason: string } | null {
+  if (!name) return null;
+  const lowerName = name.toLowerCase();
+  const lowerReference = reference.toLowerCase();
+  if (lowerName === lowerReference) return { score: 100, reason: "exact name" };
+  if (lowerName.startsWith(lowerReference)) return { score: 80, reason: `name starts with "${reference}"` };
+  if (lowerName.includes(lowerReference)) return { score: 60, reason: `name contains "${reference}"` };
+  return null;
+}
+
+// Pick the single best candidate, or explain why there is none
+function pickCandidate(entity: "box" | "device", reference: string, candidates: ResolveCandidate[], known: string[]): string {
+  const plural = entity === "box" ? "boxes" : "devices";
+  const ranked = [...candidates].sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+  if (ranked.length === 0) {
+    const examples = known.slice(0, MAX_CANDIDATES).join(", ");
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No ${entity} matches "${reference}".${examples ? ` Known ${plural} include: ${examples}` : ""}`
+    );
+  }
+
+  const best = ranked[0];
+  if (ranked.length === 1 || (best.score === 100 && ranked[1].score < 100)) {
+    return best.id;
+  }
+
+  const lines = ranked.slice(0, MAX_CANDIDATES).map((candidate, index) =>
+    `${index + 1}. ${candidate.name} (${candidate.id}) - ${candidate.reason}`
+  );
+  if (ranked.length > MAX_CANDIDATES) {
+    lines.push(`… and ${ranked.length - MAX_CANDIDATES} more`);
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `"${reference}" matches ${ranked.length} ${plural}. Pass one of these IDs instead (best match first):\n${lines.join("\n")}`
+  );
+}
+
+function deviceId(device: Device): string | undefined {
+  return (device.id || device.mac)?.toUpperCase();
+}
+
+type ResolverCache = Map<string, { expires: number; data: Promise<unknown[]> }>;
+
+export class EntityResolver {
+  constructor(
+    private client: FirewallaMspClient,
+    private ttl: number = RESOLVER_CACHE_TTL,
+    /** GIDs of the boxes names may resolve to; undefined allows every box */
+    private scope?: ReadonlySet<string>,
+    private cache: ResolverCache = new Map()
+  ) {}
+
+  /**
+   * A resolver that only sees the boxes in `gids` and the devices on them, for clients limited
+   * to some boxes. Candidates and error hints never mention anything else. Shares this cache.
+   */
+  within(gids: ReadonlySet<string>): EntityResolver {
+    return new EntityResolver(this.client, this.ttl, gids, this.cache);
+  }
+
+  private cached<T>(key: string, load: () => Promise<T[]>): Promise<T[]> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.data as Promise<T[]>;
+    }
+
+    const data = load();
+    this.cache.set(key, { expires: Date.now() + this.ttl, data });
+    // A failed fetch must not be served from the cache
+    data.catch(() => this.cache.delete(key));
+    return data;
+  }
+
+  private async boxes(): Promise<Box[]> {
+    const boxes = await this.cached("boxes", async () => (await this.client.listBoxes()).results);
+    return this.scope ? boxes.filter((box) => this.scope!.has(box.gid)) : boxes;
+  }
+
+  private async devices(): Promise<Device[]> {
+    const devices = await this.cached("devices", async () => (await this.client.listDevices()).results);
+    return this.scope ? devices.filter((device) => !!device.gid && this.scope!.has(device.gid)) : devices;
+  }
+
+  /** Every box of the tenant (or of the scope), from the cache when fresh */
+  listBoxes(): Promise<Box[]> {
+    return this.boxes();
+  }
+
+  /** Resolve a box GID, GID prefix or box name to a GID */
+  async resolveBox(reference: string): Promise<string> {
+    // A GID outside the scope is matched like a name, so it gets the same answer as a miss
+    if (BOX_ID_PATTERN.test(reference) && (!this.scope || this.scope.has(reference))) return reference;
+
+    const boxes = await this.boxes();
+    const candidates: ResolveCandidate[] = [];
+    boxes.forEach((box) => {
+      const name = box.name || box.gid;
+      if (box.gid.toLowerCase().startsWith(reference.toLowerCase()) && reference.length >= 4) {
+        candidates.push({ id: box.gid, name, score: 90, reason: `ID starts with "${reference}"` });
+        return;
+      }
+      const match = matchName(box.name, reference);
+      if (match) candidates.push({ id: box.gid, name, ...match });
+    });
+
+    return pickCandidate("box", reference, candidates, boxes.map((box) => box.name || box.gid));
+  }
+
+  /** Resolve a MAC address, IP address or device name to a device ID, optionally within one box */
+  async resolveDevice(reference: string, box?: string): Promise<string> {
+    if (MAC_PATTERN.test(reference)) return reference.toUpperCase();
+
+    const devices = (await this.devices()).filter((device) => !box || device.gid === box);
+    const candidates: ResolveCandidate[] = [];
+    devices.forEach((device) => {
+      const id = deviceId(device);
+      if (!id) return;
+      const name = device.name || id;
+      if (IP_PATTERN.test(reference)) {
+        if (device.ip === reference || device.ipAddress === reference) {
+          candidates.push({ id, name, score: 100, reason: `IP address ${reference}` });
+        }
+        return;
+      }
+      const match = matchName(device.name, reference);
+      if (match) candidates.push({ id, name, ...match });
+    });
+
+    return pickCandidate("device", reference, candidates, devices.map((device) => device.name || deviceId(device) || "?"));
+  }
+
+  /**
+   * Replace names in `box.id`, `box` and `device.id` qualifiers with IDs.
+   * Wildcards and values that already are IDs are left alone; devices are looked up
+   * within the query's box when it names exactly one.
+   */
+  async resolveQuery(nodes: QueryNode[]): Promise<{ nodes: QueryNode[]; resolved: ResolvedReference[] }> {
+    const resolved: ResolvedReference[] = [];
+    const resolveNode = async (node: QueryNode, resolve: (reference: string) => Promise<string>): Promise<QueryNode> => {
+      if (node.type !== "qualifier" || node.value.kind !== "match" || node.value.wildcard) return node;
+      const reference = node.value.value;
+      const id = await resolve(reference);
+      if (id === reference) return node;
+      resolved.push({ key: node.key, reference, id });
+      return { ...node, value: { ...node.value, value: id, quoted: false } };
+    };
+
+    const withBoxes: QueryNode[] = [];
+    for (const node of nodes) {
+      const isBox = node.type === "qualifier" && (node.key === "box.id" || node.key === "box");
+      withBoxes.push(isBox ? await resolveNode(node, (reference) => this.resolveBox(reference)) : node);
+    }
+
+    const boxIds = withBoxes.flatMap((node) =>
+      node.type === "qualifier" && (node.key === "box.id" || node.key === "box") && !node.negated && node.value.kind === "match"
+        ? [node.value.value]
+        : []
+    );
+    const scope = boxIds.length === 1 ? boxIds[0] : undefined;
+
+    const result: QueryNode[] = [];
+    for (const node of withBoxes) {
+      const isDevice = node.type === "qualifier" && node.key === "device.id";
+      result.push(isDevice ? await resolveNode(node, (reference) => this.resolveDevice(reference, scope)) : node);
+    }
+    return { nodes: result, resolved };
+  }
+}
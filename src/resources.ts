@@ -0,0 +1,279 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { FirewallaMspClient } from "./client.js";
+import { resolveProfile, ServerContext } from "./context.js";
+import { resourceNotFound, toMcpError } from "./errors.js";
+import { withRuleName } from "./formatting.js";
+import { isScoped } from "./roles.js";
+import { ListResponse } from "./types.js";
+
+// Resource templates for addressable Firewalla entities
+const RESOURCE_SCHEME = "firewalla://";
+
+const resourceTemplates = [
+  {
+    uriTemplate: "firewalla://boxes/{gid}",
+    name: "box",
+    description: "A Firewalla box by GID",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "firewalla://boxes/{gid}/devices",
+    name: "box_devices",
+    description: "All devices on a Firewalla box",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "firewalla://devices/{id}",
+    name: "device",
+    description: "A device by ID (MAC address)",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "firewalla://alarms/{gid}/{aid}",
+    name: "alarm",
+    description: "An alarm by box GID and alarm ID",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "firewalla://rules/{id}",
+    name: "rule",
+    description: "A security rule by ID (requires MSP 2.7.0+)",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "firewalla://target-lists/{id}",
+    name: "target_list",
+    description: "A target list by ID",
+    mimeType: "application/json",
+  },
+];
+
+// Collection resources are always listed; individual devices and alarms are
+// only reachable through templates since there can be thousands of them
+const collectionResources = [
+  {
+    uri: "firewalla://boxes",
+    name: "All boxes",
+    description: "All Firewalla boxes in the MSP",
+    mimeType: "application/json",
+  },
+  {
+    uri: "firewalla://devices",
+    name: "All devices",
+    description: "All devices across boxes",
+    mimeType: "application/json",
+  },
+  {
+    uri: "firewalla://alarms",
+    name: "Active alarms",
+    description: "First page of active alarms",
+    mimeType: "application/json",
+  },
+  {
+    uri: "firewalla://rules",
+    name: "All rules",
+    description: "All security rules (requires MSP 2.7.0+)",
+    mimeType: "application/json",
+  },
+  {
+    uri: "firewalla://target-lists",
+    name: "All target lists",
+    description: "All target lists",
+    mimeType: "application/json",
+  },
+];
+
+// The tool whose data each collection exposes; clients without that tool do not get the resource
+const RESOURCE_TOOLS: Record<string, string> = {
+  boxes: "list_boxes",
+  devices: "list_devices",
+  alarms: "list_alarms",
+  rules: "list_rules",
+  "target-lists": "list_target_lists",
+};
+
+// Devices of a box come from list_devices rather than list_boxes
+function resourceTool(uri: string): string | undefined {
+  const [collection, , nested] = uri.slice(RESOURCE_SCHEME.length).split("/");
+  return nested === "devices" ? RESOURCE_TOOLS.devices : RESOURCE_TOOLS[collection];
+}
+
+function mayRead(ctx: ServerContext, uri: string): boolean {
+  const tool = resourceTool(uri);
+  return !ctx.identity || (!!tool && ctx.identity.tools.has(tool));
+}
+
+async function findInList(listing: Promise<ListResponse>, predicate: (item: any) => boolean): Promise<any> {
+  const match = (await listing).results.find(predicate);
+  if (!match) throw resourceNotFound();
+  return match;
+}
+
+async function readFirewallaResource(client: FirewallaMspClient, uri: string): Promise<any> {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+  
+  const segments = uri
+    .slice(RESOURCE_SCHEME.length)
+    .split("/")
+    .filter(Boolean)
+    .map(decodeURIComponent);
+  const [collection, first, second] = segments;
+  
+  switch (collection) {
+    case "boxes": {
+      if (segments.length === 1) {
+        return client.listBoxes();
+      }
+      if (segments.length === 2) {
+        return findInList(client.listBoxes(), (box) => box.gid === first);
+      }
+      if (segments.length === 3 && second === "devices") {
+        return client.listDevices({ box: first });
+      }
+      break;
+    }
+    
+    case "devices": {
+      if (segments.length === 1) {
+        return client.listDevices();
+      }
+      if (segments.length === 2) {
+        const id = first.toLowerCase();
+        return findInList(client.listDevices(), (device) =>
+          String(device.id || '').toLowerCase() === id || String(device.mac || '').toLowerCase() === id
+        );
+      }
+      break;
+    }
+    
+    case "alarms": {
+      if (segments.length === 1) {
+        return client.list("/alarms", { query: "status:active" });
+      }
+      if (segments.length === 3) {
+        return client.getAlarm(first, second);
+      }
+      break;
+    }
+    
+    case "rules": {
+      if (segments.length === 1) {
+        const data = await client.listRules();
+        return { ...data, results: data.results.map(withRuleName) };
+      }
+      if (segments.length === 2) {
+        return withRuleName(await findInList(client.listRules(), (rule) => rule.id === first));
+      }
+      break;
+    }
+    
+    case "target-lists": {
+      if (segments.length === 1) {
+        return client.listTargetLists();
+      }
+      if (segments.length === 2) {
+        return client.getTargetList(first);
+      }
+      break;
+    }
+  }
+  
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+// Resources are read through the default profile. They are not filtered by box, so clients
+// limited to some boxes or groups see none and use the tools instead. Other clients only see
+// the resources whose listing tool their role allows.
+export function registerResourceHandlers(server: Server, ctx: ServerContext): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    if (isScoped(ctx.identity)) {
+      return { resources: [] };
+    }
+    const { client } = resolveProfile(ctx);
+    const empty = Promise.resolve([]);
+    const enumerations = await Promise.allSettled([
+      !mayRead(ctx, "firewalla://boxes") ? empty : client.listBoxes().then((data) =>
+        data.results.map((box: any) => ({
+          uri: `firewalla://boxes/${encodeURIComponent(box.gid)}`,
+          name: box.name || box.gid,
+          description: `Firewalla ${box.model || 'box'}${box.group ? ` in group ${box.group}` : ''}`,
+          mimeType: "application/json",
+        }))
+      ),
+      !mayRead(ctx, "firewalla://rules") ? empty : client.listRules().then((data) =>
+        data.results.map((rule: any) => ({
+          uri: `firewalla://rules/${encodeURIComponent(rule.id)}`,
+          name: withRuleName(rule).name,
+          description: `${rule.status || 'unknown'} ${rule.action || 'rule'}`,
+          mimeType: "application/json",
+        }))
+      ),
+      !mayRead(ctx, "firewalla://target-lists") ? empty : client.listTargetLists().then((data) =>
+        data.results.map((list: any) => ({
+          uri: `firewalla://target-lists/${encodeURIComponent(list.id)}`,
+          name: list.name || list.id,
+          description: `${(list.targets || []).length} targets${list.category ? ` (${list.category})` : ''}`,
+          mimeType: "application/json",
+        }))
+      ),
+    ]);
+
+    // Rules need MSP 2.7.0+, so a single failing listing should not hide the others
+    const rejected = enumerations.filter((result) => result.status === "rejected");
+    if (rejected.length === enumerations.length) {
+      throw toMcpError((rejected[0] as PromiseRejectedResult).reason);
+    }
+
+    const entities = enumerations.flatMap((result) =>
+      result.status === "fulfilled" ? result.value : []
+    );
+
+    return { resources: [...collectionResources.filter((resource) => mayRead(ctx, resource.uri)), ...entities] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: isScoped(ctx.identity) ? [] : resourceTemplates.filter((template) => mayRead(ctx, template.uriTemplate)),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (ctx.identity && uri.startsWith(RESOURCE_SCHEME) && !mayRead(ctx, uri)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Resource ${uri} is not available to client ${ctx.identity.name} (role ${ctx.identity.role})`
+      );
+    }
+    if (isScoped(ctx.identity)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Resources are not available to client ${ctx.identity.name}, which is limited to some boxes or groups; use the tools instead`
+      );
+    }
+
+    try {
+      const data = await readFirewallaResource(resolveProfile(ctx).client, uri);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+}
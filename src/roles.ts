@@ -0,0 +1,278 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { FirewallaMspClient } from "./client.js";
+import { resourceNotFound } from "./errors.js";
+import { EntityResolver } from "./resolver.js";
+import { toolDefinitions } from "./tools.js";
+
+// Role-based access for the hosted server. Each client token maps to a role, which allows a
+// set of tools, and optionally to the boxes and box groups the client may see. Scoped clients
+// have their arguments checked before a tool runs and their results filtered by box afterwards.
+
+export type Role = "viewer" | "analyst" | "operator" | "admin";
+
+export const ROLES: Role[] = ["viewer", "analyst", "operator", "admin"];
+
+const VIEWER_TOOLS = [
+  "list_boxes",
+  "get_box",
+  "list_devices",
+  "list_alarms",
+  "get_alarm",
+  "list_rules",
+  "list_flows",
+  "list_target_lists",
+  "get_target_list",
+  "get_statistics",
+  "get_simple_statistics",
+  "get_trends",
+  "fleet_health",
+  "search_global",
+  "search_devices",
+  "search_alarms",
+  "search_flows",
+  "validate_query",
+  "build_query",
+  "list_profiles",
+];
+
+const ANALYST_TOOLS = [...VIEWER_TOOLS, "export_results", "get_audit_log"];
+
+// Day-to-day changes; deleting rules and target lists and undoing changes stay with admins
+const OPERATOR_TOOLS = [
+  ...ANALYST_TOOLS,
+  "delete_alarm",
+  "pause_rule",
+  "resume_rule",
+  "create_rule",
+  "update_rule",
+  "create_target_list",
+  "update_target_list",
+];
+
+/** Tools each role may call */
+export const ROLE_TOOLS: Record<Role, ReadonlySet<string>> = {
+  viewer: new Set(VIEWER_TOOLS),
+  analyst: new Set(ANALYST_TOOLS),
+  operator: new Set(OPERATOR_TOOLS),
+  admin: new Set(toolDefinitions.map((tool) => tool.name)),
+};
+
+// Tools whose effect or output cannot be tied to a box, so scoped clients never get them
+const UNSCOPED_TOOLS = ["create_rule", "create_target_list", "update_target_list", "delete_target_list", "undo_change", "get_audit_log"];
+
+// Aggregates per box group; clients scoped to boxes alone cannot use them
+const GROUP_TOOLS = ["get_statistics", "get_simple_statistics", "get_trends", "fleet_health"];
+
+// Tools whose results are lists of box-owned records
+const BOX_FILTERED_TOOLS = new Set([
+  "list_boxes",
+  "list_devices",
+  "list_alarms",
+  "list_rules",
+  "list_flows",
+  "list_target_lists",
+  "search_global",
+  "search_devices",
+  "search_alarms",
+  "search_flows",
+]);
+
+// Tools whose query accepts a box.id or box.group.id term
+const QUERY_TOOLS = new Set(["list_alarms", "list_rules", "list_flows", "search_global", "search_devices", "search_alarms", "search_flows"]);
+
+const RULE_TOOLS = new Set(["pause_rule", "resume_rule", "update_rule", "delete_rule"]);
+
+/** A client of the hosted server as seen by the tool handlers */
+export interface ClientIdentity {
+  name: string;
+  role: Role;
+  /** The role's tools, narrowed by the client's own allowlist and its scope */
+  tools: ReadonlySet<string>;
+  /** Box GIDs or names the client is limited to; empty means no box limit */
+  boxes: string[];
+  /** Box group IDs the client is limited to; empty means no group limit */
+  groups: string[];
+}
+
+export interface ClientOptions {
+  name: string;
+  role: Role;
+  /** Bearer token the client authenticates with */
+  token: string;
+  /** Further limit the role's tools to these */
+  tools?: string[];
+  boxes?: string[];
+  groups?: string[];
+}
+
+export function isScoped(identity: ClientIdentity | undefined): identity is ClientIdentity {
+  return !!identity && (identity.boxes.length > 0 || identity.groups.length > 0);
+}
+
+/** Build a client's identity; throws on unknown roles or tools outside the role */
+export function createIdentity(options: Omit<ClientOptions, "token">): ClientIdentity {
+  if (!ROLES.includes(options.role)) {
+    throw new Error(`unknown role "${options.role}"; use one of ${ROLES.join(", ")}`);
+  }
+  const roleTools = ROLE_TOOLS[options.role];
+  const outside = (options.tools || []).filter((tool) => !roleTools.has(tool));
+  if (outside.length > 0) {
+    throw new Error(`${outside.join(", ")} ${outside.length === 1 ? "is" : "are"} not available to role ${options.role}`);
+  }
+
+  const boxes = options.boxes || [];
+  const groups = options.groups || [];
+  const excluded = new Set<string>();
+  if (boxes.length > 0 || groups.length > 0) UNSCOPED_TOOLS.forEach((tool) => excluded.add(tool));
+  if (groups.length === 0 && boxes.length > 0) GROUP_TOOLS.forEach((tool) => excluded.add(tool));
+
+  const tools = [...(options.tools || roleTools)].filter((tool) => !excluded.has(tool));
+  return { name: options.name, role: options.role, tools: new Set(tools), boxes, groups };
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** Maps bearer tokens to client identities */
+export class ClientRegistry {
+  private readonly clients: { digest: Buffer; identity: ClientIdentity }[];
+
+  constructor(clients: ClientOptions[]) {
+    const names = new Set<string>();
+    const tokens = new Set<string>();
+    this.clients = clients.map((client) => {
+      if (!client.name) throw new Error("Every client needs a name");
+      if (names.has(client.name)) throw new Error(`Duplicate client name: ${client.name}`);
+      if (!client.token) throw new Error(`Client ${client.name} needs a token`);
+      if (tokens.has(client.token)) throw new Error(`Client ${client.name} reuses another client's token`);
+      names.add(client.name);
+      tokens.add(client.token);
+      try {
+        return { digest: digest(client.token), identity: createIdentity(client) };
+      } catch (error) {
+        throw new Error(`Invalid client ${client.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.clients.length;
+  }
+
+  /** The identity holding `token`; every entry is compared so timing does not reveal which matched */
+  authenticate(token: string): ClientIdentity | undefined {
+    const presented = digest(token);
+    let match: ClientIdentity | undefined;
+    this.clients.forEach((client) => {
+      if (timingSafeEqual(client.digest, presented)) match = client.identity;
+    });
+    return match;
+  }
+}
+
+/** GIDs of the boxes a scoped client may see in the profile behind `resolver` */
+export async function resolveBoxScope(identity: ClientIdentity, resolver: EntityResolver): Promise<Set<string>> {
+  const allowed = new Set<string>();
+  for (const reference of identity.boxes) {
+    allowed.add(await resolver.resolveBox(reference));
+  }
+  if (identity.groups.length > 0) {
+    (await resolver.listBoxes())
+      .filter((box) => !!box.group && identity.groups.includes(box.group))
+      .forEach((box) => allowed.add(box.gid));
+  }
+  return allowed;
+}
+
+function outOfScope(identity: ClientIdentity, what: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `${what} is outside the boxes and groups client ${identity.name} may access`);
+}
+
+/**
+ * Check a scoped client's arguments against its boxes and groups and narrow them where
+ * possible: group arguments default to the client's only group, and queries gain a
+ * `box.id` or `box.group.id` term when the client is limited to exactly one.
+ */
+export async function scopeArguments(
+  identity: ClientIdentity,
+  tool: string,
+  args: Record<string, any>,
+  allowed: Set<string>,
+  client: FirewallaMspClient,
+  resolver: EntityResolver
+): Promise<Record<string, any>> {
+  const scoped = { ...args };
+
+  if (GROUP_TOOLS.includes(tool) || ((tool === "list_boxes" || tool === "list_devices") && args.group)) {
+    if (!scoped.group && identity.groups.length === 1) {
+      scoped.group = identity.groups[0];
+    }
+    if (!scoped.group) {
+      throw new McpError(ErrorCode.InvalidParams, `${tool} needs a group; client ${identity.name} may use ${identity.groups.join(", ")}`);
+    }
+    if (!identity.groups.includes(scoped.group)) throw outOfScope(identity, `Group ${scoped.group}`);
+  }
+
+  // `resolver` only knows the allowed boxes, so references to other boxes fail as unknown
+  const box = tool === "list_devices" ? args.box : tool === "get_box" ? args.box : tool === "get_alarm" || tool === "delete_alarm" ? args.gid : null;
+  if (box && !allowed.has(await resolver.resolveBox(box))) {
+    throw resourceNotFound();
+  }
+
+  // Rules and target lists of other boxes look the same as ones that do not exist
+  if (RULE_TOOLS.has(tool)) {
+    const rule = await client.getRule(args.id);
+    if (rule && !(rule.gid && allowed.has(rule.gid))) throw resourceNotFound();
+  }
+
+  if (tool === "get_target_list" && !inScope(await client.getTargetList(args.id), allowed)) {
+    throw resourceNotFound();
+  }
+
+  if (QUERY_TOOLS.has(tool)) {
+    const term = identity.boxes.length === 0 && identity.groups.length === 1
+      ? `box.group.id:${identity.groups[0]}`
+      : allowed.size === 1 && identity.groups.length === 0 ? `box.id:${[...allowed][0]}` : null;
+    if (term) scoped.query = [args.query, term].filter(Boolean).join(" ");
+  }
+
+  return scoped;
+}
+
+function inScope(item: any, allowed: Set<string>): boolean {
+  if (item === null || typeof item !== "object") return false;
+  // Target lists belong to a box or are shared by all of them
+  if ("owner" in item && !("gid" in item)) return item.owner === "global" || allowed.has(item.owner);
+  return typeof item.gid === "string" && allowed.has(item.gid);
+}
+
+/**
+ * Drop records of boxes outside the scope from a tool's results and recompute the counts in
+ * `metadata`. How many were dropped is not reported, so results do not reveal hidden boxes.
+ */
+export function filterToScope(
+  tool: string,
+  data: any,
+  metadata: Record<string, any>,
+  allowed: Set<string>
+): { data: any; metadata: Record<string, any> } {
+  if (!BOX_FILTERED_TOOLS.has(tool) || data === null || typeof data !== "object") return { data, metadata };
+
+  const keep = (items: unknown[]) => items.filter((item) => inScope(item, allowed));
+
+  if (tool === "search_global") {
+    const results: Record<string, unknown[]> = Object.fromEntries(
+      Object.entries(data).map(([type, items]) => [type, keep(items as unknown[])])
+    );
+    const counts = Object.fromEntries(Object.entries(results).map(([type, items]) => [`${type}_count`, items.length]));
+    const total = Object.values(results).reduce((sum, items) => sum + items.length, 0);
+    return { data: results, metadata: { ...metadata, ...counts, total_count: total } };
+  }
+
+  if (!Array.isArray(data.results)) return { data, metadata };
+  const results = keep(data.results);
+  const counted = typeof metadata.count === "number" ? { count: results.length } : {};
+  return { data: { ...data, count: results.length, results }, metadata: { ...metadata, ...counted } };
+}
@@ -0,0 +1,189 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { AuditLog, DEFAULT_AUDIT_LOG_PATH } from "./audit.js";
+import { ResponseCache } from "./cache.js";
+import { FirewallaMspClient } from "./client.js";
+import { Profile, ServerContext } from "./context.js";
+import { DEFAULT_EXPORT_DIRECTORY } from "./export.js";
+import { DEFAULT_OUTPUT_FORMAT, OUTPUT_FORMATS, OutputFormat } from "./formatting.js";
+import { registerToolHandlers } from "./handlers.js";
+import { createDebugLogger, HttpClientOptions } from "./http.js";
+import { RequestLimiter, RequestLimiterOptions } from "./rate-limit.js";
+import { registerPromptHandlers } from "./prompts.js";
+import { EntityResolver } from "./resolver.js";
+import { registerResourceHandlers } from "./resources.js";
+import { ClientIdentity } from "./roles.js";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./time.js";
+import { SERVER_NAME, SERVER_VERSION } from "./version.js";
+
+/** A named MSP tenant: one domain and either an API key or a ready-made client */
+export interface ProfileOptions {
+  name: string;
+  domain: string;
+  apiKey?: string;
+  client?: FirewallaMspClient;
+  /** Shown by list_profiles instead of the key, e.g. `env:ACME_KEY` */
+  keySource?: string;
+  description?: string;
+}
+
+export interface ServerOptions {
+  /** MSP tenants the server can talk to */
+  profiles?: ProfileOptions[];
+  /** Single-MSP shortcut; adds a profile named "default" */
+  domain?: string;
+  apiKey?: string;
+  /** Profile used when a tool call does not name one (default: "default" if defined, else the first profile) */
+  defaultProfile?: string;
+  /** Hide and reject every tool that modifies Firewalla configuration */
+  readOnly?: boolean;
+  /** JSON Lines file that records write operations (default: ~/.firewalla-msp-mcp/audit.jsonl) */
+  auditLogPath?: string;
+  /** IANA zone for `ts:today`, `ts:yesterday` and ISO dates without an offset (default: the system zone) */
+  timeZone?: string;
+  /** Response cache settings, or false to always call the API (default: in memory, default TTLs) */
+  cache?: false | { ttls?: Record<string, number>; directory?: string };
+  /** Request rate and concurrency limits, shared by every profile */
+  rateLimit?: Omit<RequestLimiterOptions, "debugLog">;
+  /** Response format when a tool call does not pass `format` (default: xml) */
+  outputFormat?: OutputFormat;
+  /** Directory export_results writes to (default: ~/.firewalla-msp-mcp/exports) */
+  exportDirectory?: string;
+  timeout?: number;
+  maxRetries?: number;
+  userAgent?: string;
+  debug?: boolean;
+}
+
+export const DEFAULT_PROFILE_NAME = "default";
+
+function buildProfiles(
+  options: ServerOptions,
+  http: Omit<HttpClientOptions, "domain" | "apiKey">,
+  debugLog: (message: string) => void
+): Map<string, Profile> {
+  const profiles = new Map<string, Profile>();
+  // Each tenant gets its own cache; a shared directory is split by domain
+  const createCache = (domain: string) => options.cache === false
+    ? undefined
+    : new ResponseCache({ ...options.cache, namespace: domain, debugLog });
+  
+  (options.profiles || []).forEach((profile) => {
+    if (!profile.name || !profile.domain) {
+      throw new Error("Every profile needs a name and a domain");
+    }
+    if (profiles.has(profile.name)) {
+      throw new Error(`Duplicate profile name: ${profile.name}`);
+    }
+    if (!profile.client && !profile.apiKey) {
+      throw new Error(`Profile ${profile.name} needs an apiKey or a client`);
+    }
+    
+    const client = profile.client
+      || new FirewallaMspClient({ ...http, domain: profile.domain, apiKey: profile.apiKey!, cache: createCache(profile.domain) });
+    profiles.set(profile.name, {
+      name: profile.name,
+      domain: profile.domain,
+      keySource: profile.keySource || (profile.client ? "client" : "inline"),
+      description: profile.description || null,
+      client,
+      resolver: new EntityResolver(client),
+    });
+  });
+  
+  // The single-MSP options still work alongside explicit profiles
+  if (options.domain && options.apiKey && !profiles.has(DEFAULT_PROFILE_NAME)) {
+    const client = new FirewallaMspClient({ ...http, domain: options.domain, apiKey: options.apiKey, cache: createCache(options.domain) });
+    profiles.set(DEFAULT_PROFILE_NAME, {
+      name: DEFAULT_PROFILE_NAME,
+      domain: options.domain,
+      keySource: "inline",
+      description: null,
+      client,
+      resolver: new EntityResolver(client),
+    });
+  }
+  
+  return profiles;
+}
+
+/**
+ * Validate the options once and return a function that creates a server per connection.
+ * Servers from one factory share profiles, caches, the rate limiter and the audit log, so
+ * the HTTP transport can give every session its own server without multiplying API traffic.
+ * Pass the session's client identity to limit that server to the client's tools and boxes.
+ *
+ * Throws if the options do not describe at least one usable profile.
+ */
+export function createServerFactory(options: ServerOptions): (identity?: ClientIdentity) => Server {
+  const debugLog = createDebugLogger(!!options.debug);
+  const profiles = buildProfiles(options, {
+    timeout: options.timeout,
+    maxRetries: options.maxRetries,
+    userAgent: options.userAgent,
+    debug: options.debug,
+    limiter: new RequestLimiter({ ...options.rateLimit, debugLog }),
+  }, debugLog);
+  
+  if (profiles.size === 0) {
+    throw new Error("No MSP configured: pass domain and apiKey, or at least one profile");
+  }
+  
+  const defaultProfile = options.defaultProfile
+    || (profiles.has(DEFAULT_PROFILE_NAME) ? DEFAULT_PROFILE_NAME : profiles.keys().next().value!);
+  if (!profiles.has(defaultProfile)) {
+    throw new Error(`Default profile "${defaultProfile}" is not defined`);
+  }
+  
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"; use an IANA name such as Europe/Berlin`);
+  }
+  
+  const outputFormat = options.outputFormat || DEFAULT_OUTPUT_FORMAT;
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    throw new Error(`Unknown output format "${outputFormat}"; use one of ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  
+  const shared = {
+    profiles,
+    defaultProfile,
+    readOnly: !!options.readOnly,
+    timeZone,
+    outputFormat,
+    exportDirectory: options.exportDirectory || DEFAULT_EXPORT_DIRECTORY,
+    auditLog: new AuditLog(options.auditLogPath || DEFAULT_AUDIT_LOG_PATH, debugLog),
+    debugLog,
+  };
+  
+  return (identity) => {
+    const server = new Server(
+      {
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      }
+    );
+    
+    const ctx: ServerContext = { server, ...shared, identity };
+    registerToolHandlers(server, ctx);
+    registerResourceHandlers(server, ctx);
+    registerPromptHandlers(server);
+    
+    return server;
+  };
+}
+
+/**
+ * Create a Firewalla MSP MCP server. Connect it to any transport with `server.connect(transport)`.
+ *
+ * Throws if the options do not describe at least one usable profile.
+ */
+export function createServer(options: ServerOptions): Server {
+  return createServerFactory(options)();
+}
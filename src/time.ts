@@ -0,0 +1,91 @@
+// Calendar arithmetic in an IANA time zone using only Intl, so "today" and
+// bare ISO dates mean the user's day rather than the server's UTC day.
+
+export const DEFAULT_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(epochMs: number, timeZone: string): Record<string, number> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(epochMs)).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  });
+  return parts;
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds */
+export function timeZoneOffset(epochMs: number, timeZone: string): number {
+  const parts = zonedParts(epochMs, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+}
+
+export interface CalendarTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+/** Epoch milliseconds of a wall-clock time in `timeZone` */
+export function zonedTimeToEpoch(time: CalendarTime, timeZone: string): number {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour || 0, time.minute || 0, time.second || 0);
+  // Re-check the offset at the candidate instant so DST transitions land correctly
+  const first = wallClock - timeZoneOffset(wallClock, timeZone);
+  return wallClock - timeZoneOffset(first, timeZone);
+}
+
+/** Calendar date of an instant as seen in `timeZone` */
+export function zonedDate(epochMs: number, timeZone: string): CalendarTime {
+  const parts = zonedParts(epochMs, timeZone);
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+/** First and last second of the calendar day, in epoch seconds */
+export function dayBounds(date: CalendarTime, timeZone: string): { from: number; to: number } {
+  const start = zonedTimeToEpoch({ year: date.year, month: date.month, day: date.day }, timeZone);
+  const next = zonedTimeToEpoch({ year: date.year, month: date.month, day: date.day + 1 }, timeZone);
+  return { from: start / 1000, to: next / 1000 - 1 };
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(Math.abs(value)).padStart(length, "0");
+}
+
+/** ISO 8601 with the zone's offset, e.g. `2026-10-01T00:00:00+02:00` */
+export function formatZonedTime(epochSeconds: number, timeZone: string): string {
+  const epochMs = epochSeconds * 1000;
+  const parts = zonedParts(epochMs, timeZone);
+  const offsetMinutes = Math.round(timeZoneOffset(epochMs, timeZone) / 60000);
+  const offset = offsetMinutes === 0
+    ? "Z"
+    : `${offsetMinutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+  return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}${offset}`;
+}
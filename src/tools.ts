@@ -0,0 +1,941 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { EXPORT_FORMATS, EXPORTABLE_TOOLS } from "./export.js";
+
+// Tool definitions advertised through ListTools; handlers live in handlers.ts
+
+// Tools that change state on the MSP; hidden and rejected in read-only mode
+export const MUTATING_TOOLS = new Set([
+  "delete_alarm",
+  "pause_rule",
+  "resume_rule",
+  "create_rule",
+  "update_rule",
+  "delete_rule",
+  "create_target_list",
+  "update_target_list",
+  "delete_target_list",
+  "undo_change",
+]);
+
+// Equality filters accepted by build_query and the alarm/flow searches; each can also be excluded
+const MATCH_FILTER_PROPERTIES = {
+  text: { type: "string", description: "Free text to match" },
+  box: { type: "string", description: "Box name (wildcards allowed) or box ID" },
+  boxGroup: { type: "string", description: "Box group ID" },
+  device: { type: "string", description: "Device name (wildcards allowed, e.g. '*iphone*') or MAC address" },
+  status: { type: "string", description: "Status (e.g. 'active')" },
+  type: { type: "number", description: "Alarm type number (alarms only)" },
+  category: { type: "string", description: "Remote category (e.g. 'porn', 'games')" },
+  domain: { type: "string", description: "Remote domain (wildcards allowed)" },
+  region: { type: "string", description: "Remote region as a country code (e.g. 'US')" },
+  direction: { type: "string", description: "inbound or outbound (flows only)" },
+  protocol: { type: "string", description: "tcp or udp (flows only)" },
+  sport: { type: "number", description: "Source port (flows only)" },
+  dport: { type: "number", description: "Destination port (flows only)" },
+};
+
+const QUERY_FILTERS_SCHEMA = {
+  type: "object",
+  description: "Structured filters compiled into Firewalla query syntax, e.g. { box: 'Office', device: '*iphone*', since: '-1h', minDownload: '10MB', exclude: { category: 'porn' } }",
+  properties: {
+    ...MATCH_FILTER_PROPERTIES,
+    since: { type: "string", description: "Start of the time window: Unix timestamp, relative time ('-1h'), 'today', 'yesterday' or ISO date/time" },
+    until: { type: "string", description: "End of the time window, in the same forms as since" },
+    minDownload: { type: "string", description: "Minimum bytes downloaded (e.g. '10MB')" },
+    maxDownload: { type: "string", description: "Maximum bytes downloaded" },
+    minUpload: { type: "string", description: "Minimum bytes uploaded" },
+    maxUpload: { type: "string", description: "Maximum bytes uploaded" },
+    minTotal: { type: "string", description: "Minimum bytes transferred in total" },
+    maxTotal: { type: "string", description: "Maximum bytes transferred in total" },
+    exclude: {
+      type: "object",
+      description: "Filters whose matches are excluded (e.g. { category: 'porn' })",
+      properties: MATCH_FILTER_PROPERTIES,
+    },
+  },
+};
+
+export const toolDefinitions: Tool[] = [
+  // Boxes API
+  {
+    name: "list_boxes",
+    description: "Get all Firewalla boxes in the MSP",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: {
+          type: "string",
+          description: "Filter by group ID",
+        },
+      },
+    },
+  },
+  {
+    name: "get_box",
+    description: "Get one box's model, mode, firmware version, online state and group with its device, open alarm and rule counts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        box: {
+          type: "string",
+          description: "Box GID or box name",
+        },
+      },
+      required: ["box"],
+    },
+  },
+  
+  // Devices API
+  {
+    name: "list_devices",
+    description: "Get all devices across boxes (returns device name, MAC, IP, type, status, and more)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        box: {
+          type: "string",
+          description: "Filter by box ID or box name",
+        },
+        group: {
+          type: "string",
+          description: "Filter by specific box group ID",
+        },
+      },
+    },
+  },
+  
+  // Alarms API
+  {
+    name: "list_alarms",
+    description: "Get alarms with optional filtering",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query (e.g., 'status:active box:boxId type:9')",
+        },
+        groupBy: {
+          type: "string",
+          description: "Group results (comma-separated)",
+        },
+        sortBy: {
+          type: "string",
+          description: "Sort results (e.g., 'ts:desc,total:asc')",
+        },
+        limit: {
+          type: "number",
+          description: "Max results per page (≤500, default 200)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor",
+        },
+        all: {
+          type: "boolean",
+          description: "Follow next_cursor and return every page (hard cap: 10000 results / 50 pages)",
+        },
+        max_results: {
+          type: "number",
+          description: "Follow next_cursor until this many results are collected (max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+    },
+  },
+  {
+    name: "get_alarm",
+    description: "Get a specific alarm by GID and AID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        gid: {
+          type: "string",
+          description: "Box GID or box name",
+        },
+        aid: {
+          type: "string",
+          description: "Alarm ID",
+        },
+      },
+      required: ["gid", "aid"],
+    },
+  },
+  {
+    name: "delete_alarm",
+    description: "Delete a specific alarm",
+    inputSchema: {
+      type: "object",
+      properties: {
+        gid: {
+          type: "string",
+          description: "Box GID or box name",
+        },
+        aid: {
+          type: "string",
+          description: "Alarm ID",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["gid", "aid"],
+    },
+  },
+  
+  // Rules API
+  {
+    name: "list_rules",
+    description: "Get all rules (requires MSP 2.7.0+)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query (e.g., 'status:active box.id:boxId')",
+        },
+      },
+    },
+  },
+  {
+    name: "pause_rule",
+    description: "Pause a specific rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Rule ID",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "resume_rule",
+    description: "Resume a paused rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Rule ID",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_rule",
+    description: "Create a new security rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Rule name (optional, will be generated if not provided)",
+        },
+        action: {
+          type: "string",
+          enum: ["allow", "block", "time_limit"],
+          description: "Rule action: allow, block, or time_limit",
+        },
+        direction: {
+          type: "string",
+          enum: ["inbound", "outbound", "bidirection"],
+          description: "Traffic direction",
+        },
+        protocol: {
+          type: "string",
+          enum: ["tcp", "udp", "icmp", "any"],
+          description: "Protocol type",
+        },
+        target: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["ip", "domain", "category", "device", "network"],
+              description: "Target type",
+            },
+            value: {
+              type: "string",
+              description: "Target value (IP, domain, etc.). Devices may be given by ID, MAC, IP or name",
+            },
+          },
+          required: ["type", "value"],
+          description: "Rule target specification",
+        },
+        scope: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["device", "network", "group"],
+              description: "Scope type",
+            },
+            value: {
+              type: "string",
+              description: "Scope value (device ID, network ID, etc.). Devices may be given by ID, MAC, IP or name",
+            },
+            port: {
+              type: "string",
+              description: "Port or port range",
+            },
+          },
+          description: "Rule scope specification (optional)",
+        },
+        schedule: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["daily", "weekly", "custom"],
+              description: "Schedule type",
+            },
+            times: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Time periods",
+            },
+          },
+          description: "Rule schedule (optional, for time_limit rules)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["action", "direction", "protocol", "target"],
+    },
+  },
+  {
+    name: "update_rule",
+    description: "Update an existing rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Rule ID",
+        },
+        name: {
+          type: "string",
+          description: "Rule name",
+        },
+        action: {
+          type: "string",
+          enum: ["allow", "block", "time_limit"],
+          description: "Rule action",
+        },
+        direction: {
+          type: "string",
+          enum: ["inbound", "outbound", "bidirection"],
+          description: "Traffic direction",
+        },
+        protocol: {
+          type: "string",
+          enum: ["tcp", "udp", "icmp", "any"],
+          description: "Protocol type",
+        },
+        target: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["ip", "domain", "category", "device", "network"],
+            },
+            value: {
+              type: "string",
+            },
+          },
+          description: "Rule target specification",
+        },
+        scope: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["device", "network", "group"],
+            },
+            value: {
+              type: "string",
+            },
+            port: {
+              type: "string",
+            },
+          },
+          description: "Rule scope specification",
+        },
+        status: {
+          type: "string",
+          enum: ["active", "paused"],
+          description: "Rule status",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_rule",
+    description: "Delete a security rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Rule ID",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  
+  // Flows API
+  {
+    name: "list_flows",
+    description: "Get network flows with filtering",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query (e.g., 'ts:1234567890-1234567899 box.id:boxId')",
+        },
+        groupBy: {
+          type: "string",
+          description: "Group results",
+        },
+        sortBy: {
+          type: "string",
+          description: "Sort results (default: 'ts:desc')",
+        },
+        limit: {
+          type: "number",
+          description: "Max results per page (≤500, default 200)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor",
+        },
+        all: {
+          type: "boolean",
+          description: "Follow next_cursor and return every page (hard cap: 10000 results / 50 pages)",
+        },
+        max_results: {
+          type: "number",
+          description: "Follow next_cursor until this many results are collected (max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+    },
+  },
+  
+  // Target Lists API
+  {
+    name: "list_target_lists",
+    description: "Get all target lists",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "get_target_list",
+    description: "Get a specific target list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Target list ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_target_list",
+    description: "Create a new target list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the target list",
+        },
+        targets: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of IP addresses or domains",
+        },
+        owner: {
+          type: "string",
+          description: "Owner of the target list",
+        },
+        category: {
+          type: "string",
+          description: "Category of the target list",
+        },
+        notes: {
+          type: "string",
+          description: "Notes about the target list",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["name", "targets"],
+    },
+  },
+  {
+    name: "update_target_list",
+    description: "Update an existing target list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Target list ID",
+        },
+        name: {
+          type: "string",
+          description: "Name of the target list",
+        },
+        targets: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description: "Array of IP addresses or domains",
+        },
+        owner: {
+          type: "string",
+          description: "Owner of the target list",
+        },
+        category: {
+          type: "string",
+          description: "Category of the target list",
+        },
+        notes: {
+          type: "string",
+          description: "Notes about the target list",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_target_list",
+    description: "Delete a target list",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Target list ID",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["id"],
+    },
+  },
+
+  // Statistics API
+  {
+    name: "get_statistics",
+    description: "Get detailed statistics by type",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["topBoxesByBlockedFlows", "topBoxesBySecurityAlarms", "topRegionsByBlockedFlows"],
+          description: "Type of statistics to retrieve",
+        },
+        group: {
+          type: "string",
+          description: "Filter by specific box group ID (optional)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of results (default: 5, max: 50)",
+          minimum: 1,
+          maximum: 50,
+        },
+      },
+      required: ["type"],
+    },
+  },
+  {
+    name: "get_simple_statistics",
+    description: "Get simple overview statistics (boxes, alarms, rules counts)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: {
+          type: "string",
+          description: "Filter by specific box group ID (optional)",
+        },
+      },
+    },
+  },
+  {
+    name: "fleet_health",
+    description: "Rank boxes by health: flags offline boxes, firmware older than the fleet majority, alarm spikes in the last 24 hours and boxes with no rules",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: {
+          type: "string",
+          description: "Only check boxes in this group ID (optional)",
+        },
+      },
+    },
+  },
+
+  // Trends API
+  {
+    name: "get_trends",
+    description: "Get trend data for flows, alarms, or rules over time",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["flows", "alarms", "rules"],
+          description: "Type of trend data to retrieve",
+        },
+        group: {
+          type: "string",
+          description: "Filter by specific box group ID (optional)",
+        },
+      },
+      required: ["type"],
+    },
+  },
+
+  // Search API - Based on comprehensive API testing
+  {
+    name: "search_global",
+    description: "Search across searchable entity types (devices, alarms, flows, boxes) in parallel using Firewalla query syntax. Reports ok, error or timeout per type in the metadata",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query using Firewalla syntax. Supports: text search, key:value pairs, wildcards (*), quotes, exclusions (-), numeric comparisons (><=), ranges (start-end), units (KB/MB/GB). Examples: 'iPhone', 'status:active', 'device.name:*iphone*', 'ts:>1720000000', 'download:>1MB'",
+        },
+        types: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["devices", "alarms", "flows", "boxes"],
+          },
+          description: "Entity types to search (default: all searchable types). Note: target-lists, stats, trends do not support search",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results per type (default: 10, max: 500)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor applied to every type without an entry in cursors",
+        },
+        cursors: {
+          type: "object",
+          properties: {
+            devices: { type: "string" },
+            alarms: { type: "string" },
+            flows: { type: "string" },
+            boxes: { type: "string" },
+          },
+          description: "Per-type pagination cursors from the <type>_next_cursor metadata of a previous response, e.g. { flows: 'abc' }. Combine with types to page one type",
+        },
+        timeout: {
+          type: "number",
+          description: "Milliseconds to wait for each type before reporting it as timed out (default: 15000)",
+          minimum: 1000,
+          maximum: 120000,
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "search_devices",
+    description: "Search devices using Firewalla query syntax with device-specific qualifiers (returns device name, MAC, IP, type, status, and more)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query with device qualifiers: device.name, device.id, box.id, box.name, box.group.id. Supports text search, wildcards, quotes. Examples: 'iPhone', 'device.name:*iphone*', 'box.id:uuid'",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results (default: 50, max: 500)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor from previous response",
+        },
+        all: {
+          type: "boolean",
+          description: "Follow next_cursor and return every page (hard cap: 10000 results / 50 pages)",
+        },
+        max_results: {
+          type: "number",
+          description: "Follow next_cursor until this many results are collected (max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "search_alarms",
+    description: "Search alarms using Firewalla query syntax with alarm-specific qualifiers, or structured filters. Requires query or filters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query with alarm qualifiers: ts, type, status, box.id, box.name, box.group.id, device.id, device.name, remote.category, remote.domain, remote.region, transfer.download, transfer.upload, transfer.total. Supports ranges, comparisons, units. Examples: 'status:active', 'type:1', 'ts:>-24h', 'ts:today', 'transfer.total:>1MB'",
+        },
+        filters: {
+          ...QUERY_FILTERS_SCHEMA,
+          description: `${QUERY_FILTERS_SCHEMA.description}. Combined with query when both are given`,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results (default: 50, max: 500)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor from previous response",
+        },
+        all: {
+          type: "boolean",
+          description: "Follow next_cursor and return every page (hard cap: 10000 results / 50 pages)",
+        },
+        max_results: {
+          type: "number",
+          description: "Follow next_cursor until this many results are collected (max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+    },
+  },
+  {
+    name: "search_flows",
+    description: "Search network flows using Firewalla query syntax with flow-specific qualifiers, or structured filters. Requires query or filters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query with flow qualifiers: ts, status, direction, box.id, box.name, box.group.id, device.id, device.name, category, domain, region, sport, dport, download, upload, total. Supports wildcards, ranges, comparisons, units. Examples: 'direction:outbound', 'domain:*google*', 'download:>1MB', 'ts:>1720000000'",
+        },
+        filters: {
+          ...QUERY_FILTERS_SCHEMA,
+          description: `${QUERY_FILTERS_SCHEMA.description}. Combined with query when both are given`,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results (default: 50, max: 500)",
+          minimum: 1,
+          maximum: 500,
+        },
+        cursor: {
+          type: "string",
+          description: "Pagination cursor from previous response",
+        },
+        all: {
+          type: "boolean",
+          description: "Follow next_cursor and return every page (hard cap: 10000 results / 50 pages)",
+        },
+        max_results: {
+          type: "number",
+          description: "Follow next_cursor until this many results are collected (max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+    },
+  },
+  {
+    name: "validate_query",
+    description: "Check a Firewalla search query without calling the API. Reports syntax errors and qualifiers that are not valid for the entity type, with positions, and returns the query with units and relative times (e.g. ts:>-24h) normalized",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query to check, e.g. 'status:active transfer.total:>1MB ts:>-24h'",
+        },
+        type: {
+          type: "string",
+          enum: ["alarms", "flows", "devices", "rules", "boxes"],
+          description: "Entity type the query is for (default: accept any searchable qualifier)",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "build_query",
+    description: "Compile structured filters into a Firewalla search query without calling the API. Returns the query string so it can be reused or adjusted in search_alarms, search_flows, list_alarms or list_flows",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["alarms", "flows"],
+          description: "Entity type the query is for",
+        },
+        filters: QUERY_FILTERS_SCHEMA,
+      },
+      required: ["type", "filters"],
+    },
+  },
+
+  // Profiles
+  {
+    name: "list_profiles",
+    description: "List the configured MSP profiles (tenants) that tools can target with the profile argument",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+
+  // Audit log
+  {
+    name: "undo_change",
+    description: "Undo a rule or target-list change recorded in the audit log by restoring the snapshot taken before it. Deleted resources are recreated (with a new ID) and created resources are deleted. The undo is itself recorded, so undoing it redoes the original change",
+    inputSchema: {
+      type: "object",
+      properties: {
+        change_id: {
+          type: "string",
+          description: "Change ID from the audit log or from the mutating tool's response",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change as a before/after diff without applying it",
+        },
+      },
+      required: ["change_id"],
+    },
+  },
+  {
+    name: "get_audit_log",
+    description: "Query the local audit log of write operations performed through this server (newest first). Each entry includes the arguments, HTTP status and a snapshot of the resource before the change",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: {
+          type: "string",
+          description: "Only entries at or after this time (ISO 8601 or epoch seconds)",
+        },
+        until: {
+          type: "string",
+          description: "Only entries at or before this time (ISO 8601 or epoch seconds)",
+        },
+        tool: {
+          type: "string",
+          description: "Only entries for this tool (e.g., 'delete_rule')",
+        },
+        resource_id: {
+          type: "string",
+          description: "Only entries for this resource ID (rule ID, target list ID, or 'gid/aid' for alarms)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum entries to return (default: 50, max: 500)",
+          minimum: 1,
+          maximum: 500,
+        },
+      },
+    },
+  },
+  // Export
+  {
+    name: "export_results",
+    description: "Run a list or search tool and write its results to a CSV or NDJSON file in the server's export directory, for spreadsheets and compliance reports. Paginated results are fetched in full, and nested fields are flattened into columns such as device.name and remote.domain. Returns the file path, row count and column list instead of the data",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "string",
+          enum: EXPORTABLE_TOOLS,
+          description: "The list or search tool to run",
+        },
+        arguments: {
+          type: "object",
+          description: "Arguments for that tool, e.g. { query: 'ts:>-24h' } for search_flows",
+        },
+        file_format: {
+          type: "string",
+          enum: EXPORT_FORMATS,
+          description: "csv (default) or ndjson (one JSON object per line)",
+        },
+        filename: {
+          type: "string",
+          description: "File name within the export directory (default: <tool>-<timestamp>.<format>). Existing files are never overwritten",
+        },
+        max_results: {
+          type: "number",
+          description: "Stop after this many rows (default and max: 10000)",
+          minimum: 1,
+          maximum: 10000,
+        },
+      },
+      required: ["tool"],
+    },
+  },
+];
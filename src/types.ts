@@ -0,0 +1,93 @@
+// Request and response shapes for the Firewalla MSP v2 API
+
+/** List endpoints return either a bare array or `{ count, results, next_cursor }`; the client always normalizes to the latter */
+export interface ListResponse<T = any> {
+  count: number;
+  results: T[];
+  next_cursor?: string | null;
+}
+
+export interface PaginatedResult<T = any> extends ListResponse<T> {
+  next_cursor: string | null;
+  pages_fetched: number;
+  /** True when a cap stopped pagination before the API ran out of pages */
+  truncated: boolean;
+}
+
+/** Writes report the HTTP status alongside the body so callers can tell, e.g., 200 from 204 */
+export interface MutationResult<T = any> {
+  status: number;
+  /** The response body; null when the API sent none */
+  data: T;
+}
+
+export interface QueryParams {
+  query?: string;
+  groupBy?: string;
+  sortBy?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface BoxListParams extends QueryParams {
+  group?: string;
+}
+
+export interface DeviceListParams extends QueryParams {
+  box?: string;
+  group?: string;
+}
+
+export interface PaginationOptions {
+  /** Stop once this many results are collected (hard cap: 10000) */
+  maxResults?: number;
+}
+
+export type RuleAction = "allow" | "block" | "time_limit";
+export type RuleDirection = "inbound" | "outbound" | "bidirection";
+export type RuleProtocol = "tcp" | "udp" | "icmp" | "any";
+export type RuleStatus = "active" | "paused";
+
+export interface RuleTarget {
+  type: "ip" | "domain" | "category" | "device" | "network";
+  value: string;
+}
+
+export interface RuleScope {
+  type: "device" | "network" | "group";
+  value: string;
+  port?: string;
+}
+
+export interface RuleSchedule {
+  type: "daily" | "weekly" | "custom";
+  times?: string[];
+}
+
+export interface CreateRuleInput {
+  name?: string;
+  action: RuleAction;
+  direction: RuleDirection;
+  protocol: RuleProtocol;
+  target: RuleTarget;
+  scope?: RuleScope;
+  schedule?: RuleSchedule;
+}
+
+export interface UpdateRuleInput extends Partial<CreateRuleInput> {
+  status?: RuleStatus;
+}
+
+export interface CreateTargetListInput {
+  name: string;
+  targets: string[];
+  owner?: string;
+  category?: string;
+  notes?: string;
+}
+
+export type UpdateTargetListInput = Partial<CreateTargetListInput>;
+
+export type StatisticsType = "topBoxesByBlockedFlows" | "topBoxesBySecurityAlarms" | "topRegionsByBlockedFlows";
+
+export type TrendsType = "flows" | "alarms" | "rules";
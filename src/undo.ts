@@ -0,0 +1,159 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import axios from "axios";
+import { AuditEntry } from "./audit.js";
+import { FirewallaMspClient } from "./client.js";
+import { CreateRuleInput, CreateTargetListInput, MutationResult, UpdateRuleInput, UpdateTargetListInput } from "./types.js";
+
+// Fields sent back to the API when restoring a snapshot
+const RESTORE_FIELDS: Record<string, string[]> = {
+  rule: ["name", "action", "direction", "protocol", "target", "scope", "schedule", "status"],
+  target_list: ["name", "targets", "owner", "category", "notes"],
+};
+
+// Tools whose changes are undone by deleting the resource they created
+const CREATE_TOOLS = new Set(["create_rule", "create_target_list"]);
+
+// Tools whose audit entries carry enough state to be reversed
+const UNDOABLE_TOOLS = new Set([
+  "create_rule",
+  "update_rule",
+  "pause_rule",
+  "resume_rule",
+  "delete_rule",
+  "create_target_list",
+  "update_target_list",
+  "delete_target_list",
+  "undo_change",
+]);
+
+// A rule or target list body; only the resource type's RESTORE_FIELDS are set
+export type RestoreBody = UpdateRuleInput & UpdateTargetListInput;
+
+export function pickRestoreFields(resourceType: string, snapshot: any): RestoreBody {
+  const body: Record<string, any> = {};
+  RESTORE_FIELDS[resourceType].forEach((field) => {
+    if (snapshot[field] !== undefined && snapshot[field] !== null) body[field] = snapshot[field];
+  });
+  return body;
+}
+
+// A snapshot can only be recreated if it has the fields the create call requires
+function isCreatableRule(body: UpdateRuleInput): body is CreateRuleInput {
+  return !!(body.action && body.direction && body.protocol && body.target);
+}
+
+function isCreatableTargetList(body: UpdateTargetListInput): body is CreateTargetListInput {
+  return !!body.name && Array.isArray(body.targets);
+}
+
+// Current state of a resource, or null if it no longer exists
+async function fetchCurrentState(client: FirewallaMspClient, resourceType: string, id: string | null): Promise<any> {
+  if (!id) return null;
+  
+  if (resourceType === "rule") {
+    return client.getRule(id, { fresh: true });
+  }
+  
+  try {
+    return await client.getTargetList(id, { fresh: true });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+    throw error;
+  }
+}
+
+export interface UndoPlan {
+  operation: "restore" | "recreate" | "delete";
+  resourceId: string | null;
+  current: any;
+  desired: any;
+  write: () => Promise<MutationResult>;
+}
+
+/** Why the change in `entry` cannot be undone, or null when it can */
+export function undoRefusal(entry: AuditEntry): McpError | null {
+  if (!entry.success) {
+    return new McpError(ErrorCode.InvalidParams, `Change ${entry.change_id} failed upstream, so there is nothing to undo`);
+  }
+  if (!UNDOABLE_TOOLS.has(entry.tool) || !RESTORE_FIELDS[entry.resource_type]) {
+    return new McpError(ErrorCode.InvalidParams, `Changes made by ${entry.tool} cannot be undone`);
+  }
+  if (entry.snapshot_error) {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `No snapshot was captured before change ${entry.change_id} (${entry.snapshot_error}), so it cannot be undone`
+    );
+  }
+  // Only creates, and undos that recreated a resource (an undo always records the state it
+  // replaced, so null means there was none), had nothing before them. Any other change
+  // without a snapshot must not be undone by deleting what it changed.
+  const created = CREATE_TOOLS.has(entry.tool) || entry.tool === "undo_change";
+  if ((entry.before === null || entry.before === undefined) && !created) {
+    return new McpError(ErrorCode.InvalidRequest, `No snapshot was captured before change ${entry.change_id}, so it cannot be undone`);
+  }
+  return null;
+}
+
+// Work out how to bring a resource back to the state captured in an audit entry.
+// The entry's `before` snapshot is the desired state; null means the resource should not exist.
+export async function planUndo(client: FirewallaMspClient, entry: AuditEntry): Promise<UndoPlan> {
+  const refusal = undoRefusal(entry);
+  if (refusal) throw refusal;
+  
+  const resourceType = entry.resource_type;
+  const isRule = resourceType === "rule";
+  const desired = entry.before;
+  // Creates (and undos that recreated a resource) only know the new ID from the response
+  const resourceId = entry.resource_id ?? entry.after?.id ?? null;
+  const current = await fetchCurrentState(client, resourceType, resourceId);
+  
+  if (desired === null || desired === undefined) {
+    if (!current) {
+      throw new McpError(ErrorCode.InvalidRequest, `The ${resourceType} created by change ${entry.change_id} no longer exists`);
+    }
+    return {
+      operation: "delete",
+      resourceId,
+      current,
+      desired: null,
+      write: () => isRule ? client.deleteRule(resourceId) : client.deleteTargetList(resourceId),
+    };
+  }
+  
+  const body = pickRestoreFields(resourceType, desired);
+  
+  if (current) {
+    return {
+      operation: "restore",
+      resourceId,
+      current,
+      desired,
+      write: () => isRule
+        ? client.updateRule(resourceId, body)
+        : client.updateTargetList(resourceId, body),
+    };
+  }
+  
+  // Deleted resources come back with a new ID; rules are created active, so re-pause if needed
+  const { status, ...createBody } = body;
+  const create = isRule
+    ? isCreatableRule(createBody) ? () => client.createRule(createBody) : null
+    : isCreatableTargetList(body) ? () => client.createTargetList(body) : null;
+  if (!create) {
+    throw new McpError(ErrorCode.InvalidRequest, `The ${resourceType} snapshot in change ${entry.change_id} lacks the fields needed to recreate it`);
+  }
+  return {
+    operation: "recreate",
+    resourceId: null,
+    current: null,
+    desired,
+    write: async () => {
+      const result = await create();
+      if (isRule && status === "paused" && result.data?.id) {
+        await client.pauseRule(result.data.id);
+        result.data = { ...result.data, status };
+      }
+      return result;
+    },
+  };
+}
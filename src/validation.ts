@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { ListResponse } from "./types.js";
+
+// Runtime checks for API payloads. Validation never rejects a response: items are passed
+// through as received, and anything that does not match the expected shape becomes a
+// schema warning so drift shows up in response metadata instead of as "Unknown" values.
+
+const optionalString = z.string().nullish();
+const optionalNumber = z.number().nullish();
+const optionalBoolean = z.boolean().nullish();
+
+const reference = z.looseObject({
+  id: optionalString,
+  name: optionalString,
+  ip: optionalString,
+}).nullish();
+
+export const BoxSchema = z.looseObject({
+  gid: z.string(),
+  name: optionalString,
+  model: optionalString,
+  mode: optionalString,
+  version: optionalString,
+  online: optionalBoolean,
+  lastSeen: optionalNumber,
+  group: z.union([z.string(), z.looseObject({})]).nullish(),
+});
+
+export const DeviceSchema = z.looseObject({
+  id: optionalString,
+  gid: optionalString,
+  name: optionalString,
+  mac: optionalString,
+  ip: optionalString,
+  online: optionalBoolean,
+  lastSeen: optionalNumber,
+  network: z.looseObject({ id: optionalString, name: optionalString }).nullish(),
+  totalDownload: optionalNumber,
+  totalUpload: optionalNumber,
+});
+
+const transfer = z.looseObject({
+  download: optionalNumber,
+  upload: optionalNumber,
+  total: optionalNumber,
+}).nullish();
+
+export const AlarmSchema = z.looseObject({
+  gid: z.string(),
+  aid: z.union([z.string(), z.number()]),
+  ts: z.number(),
+  type: z.union([z.number(), z.string()]),
+  alarmType: optionalString,
+  message: optionalString,
+  status: optionalString,
+  severity: optionalString,
+  device: reference,
+  remote: z.looseObject({
+    domain: optionalString,
+    ip: optionalString,
+    country: optionalString,
+    region: optionalString,
+  }).nullish(),
+  transfer,
+});
+
+export const FlowSchema = z.looseObject({
+  ts: z.number(),
+  gid: optionalString,
+  protocol: optionalString,
+  direction: optionalString,
+  block: optionalBoolean,
+  download: optionalNumber,
+  upload: optionalNumber,
+  duration: optionalNumber,
+  count: optionalNumber,
+  device: reference,
+  source: reference,
+  destination: reference,
+});
+
+export const RuleSchema = z.looseObject({
+  id: z.string(),
+  name: optionalString,
+  action: optionalString,
+  direction: optionalString,
+  protocol: optionalString,
+  status: optionalString,
+  target: z.looseObject({ type: z.string(), value: z.string() }).nullish(),
+  scope: z.looseObject({ type: z.string(), value: z.string() }).nullish(),
+});
+
+export const TargetListSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  targets: z.array(z.string()).nullish(),
+  owner: optionalString,
+  category: optionalString,
+  notes: optionalString,
+  lastUpdated: optionalNumber,
+});
+
+export const StatisticsEntrySchema = z.looseObject({
+  count: optionalNumber,
+  value: optionalNumber,
+  meta: z.looseObject({}).nullish(),
+});
+
+export const SimpleStatisticsSchema = z.looseObject({
+  onlineBoxes: optionalNumber,
+  offlineBoxes: optionalNumber,
+  alarms: optionalNumber,
+  rules: optionalNumber,
+});
+
+export const TrendPointSchema = z.looseObject({
+  ts: optionalNumber,
+  timestamp: optionalNumber,
+  value: optionalNumber,
+});
+
+export type EntitySchema = z.ZodType;
+
+// Handle both array and object list responses
+export function normalizeListResponse<T = any>(data: any): ListResponse<T> {
+  if (Array.isArray(data)) {
+    return { count: data.length, results: data };
+  }
+  const results = data?.results || [];
+  return { ...data, count: data?.count ?? results.length, results };
+}
+
+// List endpoints and the schema of the items they return
+const LIST_SCHEMAS: Array<[RegExp, string, EntitySchema]> = [
+  [/^\/boxes$/, "box", BoxSchema],
+  [/^\/devices$/, "device", DeviceSchema],
+  [/^\/alarms$/, "alarm", AlarmSchema],
+  [/^\/flows$/, "flow", FlowSchema],
+  [/^\/rules$/, "rule", RuleSchema],
+  [/^\/target-lists$/, "target_list", TargetListSchema],
+  [/^\/stats\/[^/]+$/, "statistics", StatisticsEntrySchema],
+  [/^\/trends\/[^/]+$/, "trend", TrendPointSchema],
+];
+
+export function listSchemaFor(path: string): { entity: string; schema: EntitySchema } | null {
+  const match = LIST_SCHEMAS.find(([pattern]) => pattern.test(path));
+  return match ? { entity: match[1], schema: match[2] } : null;
+}
+
+// Warnings travel with the value they describe without becoming part of its data
+const warningsByValue = new WeakMap<object, string[]>();
+
+export function schemaWarnings(value: unknown): string[] {
+  return value !== null && typeof value === "object" ? warningsByValue.get(value) || [] : [];
+}
+
+export function attachSchemaWarnings<T>(value: T, warnings: string[]): T {
+  if (warnings.length > 0 && value !== null && typeof value === "object") {
+    warningsByValue.set(value, [...schemaWarnings(value), ...warnings]);
+  }
+  return value;
+}
+
+// Cap the number of distinct warnings so a wholesale format change stays readable
+const MAX_WARNINGS = 10;
+
+function describeIssues(entity: string, items: unknown[], schema: EntitySchema): string[] {
+  const counts = new Map<string, number>();
+
+  items.forEach((item) => {
+    const result = schema.safeParse(item);
+    if (result.success) return;
+
+    // Report each problem once per item, keyed by field rather than index
+    new Set(result.error.issues.map((issue) => {
+      const path = issue.path.length > 0 ? `.${issue.path.join(".")}` : "";
+      return `${entity}${path}: ${issue.message.replace(/^Invalid input: /, "")}`;
+    })).forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+
+  const warnings = [...counts.entries()].map(([key, count]) =>
+    items.length > 1 ? `${key} (${count} of ${items.length} items)` : key
+  );
+  if (warnings.length > MAX_WARNINGS) {
+    return [...warnings.slice(0, MAX_WARNINGS), `${warnings.length - MAX_WARNINGS} more schema warnings for ${entity}`];
+  }
+  return warnings;
+}
+
+/** Normalize a list payload and check each item against the endpoint's schema */
+export function validateList<T = any>(path: string, raw: unknown): ListResponse<T> {
+  const warnings: string[] = [];
+  if (!Array.isArray(raw) && (raw === null || typeof raw !== "object" || !Array.isArray((raw as any).results))) {
+    warnings.push(`${path}: expected an array or { count, results }, received ${raw === null ? "null" : typeof raw}`);
+  }
+
+  const data = normalizeListResponse<T>(raw);
+  const target = listSchemaFor(path);
+  if (target) {
+    warnings.push(...describeIssues(target.entity, data.results, target.schema));
+  }
+  return attachSchemaWarnings(data, warnings);
+}
+
+/** Check a single-object payload against a schema */
+export function validateItem<T = any>(entity: string, schema: EntitySchema, raw: unknown): T {
+  return attachSchemaWarnings(raw as T, describeIssues(entity, [raw], schema));
+}
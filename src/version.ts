@@ -0,0 +1,2 @@
+export const SERVER_NAME = "firewalla-msp-mcp";
+export const SERVER_VERSION = "1.2.0";